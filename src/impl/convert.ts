@@ -0,0 +1,134 @@
+import { createParseError } from './diagnostics';
+import { applyEdits } from './edit';
+import { hexToDecimal } from './numbers';
+import { visit } from './parser';
+import { createScanner } from './scanner';
+import { ConversionOptions, Edit, ParseError, ParseErrorCode, SyntaxKind } from '../main';
+
+/**
+ * Converts JSON5 text to strict JSON text. Tokens which are already valid JSON are left untouched, as is the whitespace between tokens.
+ */
+export function convertToJSON(text: string, errors: ParseError[] = [], options: ConversionOptions = {}): string {
+	const nonFiniteNumbers = options.nonFiniteNumbers || 'error';
+	const edits: Edit[] = [];
+
+	function replace(offset: number, length: number, content: string) {
+		if (text.substr(offset, length) !== content) {
+			edits.push({ offset, length, content });
+		}
+	}
+
+	// Comments and whitespace.
+	const scanner = createScanner(text, false);
+	let token = scanner.scan();
+	while (token !== SyntaxKind.EOF) {
+		const offset = scanner.getTokenOffset();
+		const length = scanner.getTokenLength();
+		switch (token) {
+			case SyntaxKind.LineCommentTrivia:
+			case SyntaxKind.BlockCommentTrivia:
+				replace(offset, length, '');
+				break;
+			case SyntaxKind.Trivia:
+				replace(offset, length, text.substr(offset, length).replace(/[^ \t]/g, ' '));
+				break;
+			case SyntaxKind.LineBreakTrivia:
+				replace(offset, length, text.substr(offset, length).replace(/[\u2028\u2029]/g, '\n'));
+				break;
+		}
+		token = scanner.scan();
+	}
+
+	// Property names and values.
+	let trailingCommaOffset: number | undefined = undefined;
+	function onElement() {
+		trailingCommaOffset = undefined;
+	}
+	function onContainerEnd() {
+		if (trailingCommaOffset !== undefined) {
+			replace(trailingCommaOffset, 1, '');
+			trailingCommaOffset = undefined;
+		}
+	}
+	visit(text, {
+		onObjectBegin: onElement,
+		onObjectProperty: (name: string, offset: number, length: number) => {
+			onElement();
+			replaceString(name, offset, length);
+		},
+		onObjectEnd: onContainerEnd,
+		onArrayBegin: onElement,
+		onArrayEnd: onContainerEnd,
+		onLiteralValue: (value: any, offset: number, length: number, startLine: number, startCharacter: number) => {
+			onElement();
+			if (typeof value === 'string') {
+				replaceString(value, offset, length);
+			} else if (typeof value === 'number') {
+				if (isFinite(value)) {
+					replace(offset, length, toJSONNumber(text.substr(offset, length)));
+				} else {
+					switch (nonFiniteNumbers) {
+						case 'error':
+							errors.push(createParseError(text, ParseErrorCode.NonFiniteNumber, offset, length, startLine, startCharacter));
+							replace(offset, length, 'null');
+							break;
+						case 'null':
+							replace(offset, length, 'null');
+							break;
+						case 'string':
+							replace(offset, length, JSON.stringify(String(value)));
+							break;
+					}
+				}
+			}
+		},
+		onSeparator: (separator: string, offset: number) => {
+			if (separator === ',') {
+				trailingCommaOffset = offset;
+			}
+		},
+		onError: (error: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number) => {
+			errors.push(createParseError(text, error, offset, length, startLine, startCharacter));
+		}
+	}, { bigNumbers: 'number' }); // toJSONNumber converts big numbers exactly
+
+	function replaceString(value: string, offset: number, length: number) {
+		const lexeme = text.substr(offset, length);
+		if (!isJSONString(lexeme)) {
+			replace(offset, length, JSON.stringify(value));
+		}
+	}
+
+	return applyEdits(text, edits);
+}
+
+function isJSONString(lexeme: string): boolean {
+	if (lexeme.charAt(0) !== '"') {
+		return false;
+	}
+	try {
+		JSON.parse(lexeme);
+		return true;
+	} catch (e) {
+		return false;
+	}
+}
+
+/**
+ * Rewrites a finite JSON5 number lexeme as a JSON number with the same value. Hexadecimal numbers are converted exactly, regardless of
+ * their size.
+ */
+function toJSONNumber(lexeme: string): string {
+	let sign = '';
+	if (lexeme.charAt(0) === '+' || lexeme.charAt(0) === '-') {
+		sign = lexeme.charAt(0) === '-' ? '-' : '';
+		lexeme = lexeme.substring(1);
+	}
+	if (lexeme.charAt(1) === 'x' || lexeme.charAt(1) === 'X') {
+		return sign + hexToDecimal(lexeme.substring(2));
+	}
+	const match = /^(\d*)(?:\.(\d*))?(.*)$/.exec(lexeme)!;
+	const integerPart = match[1] || '0';
+	const fractionPart = match[2] ? '.' + match[2] : '';
+	return sign + integerPart + fractionPart + match[3];
+}
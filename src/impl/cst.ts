@@ -0,0 +1,176 @@
+import { createScanner } from './scanner';
+import { CSTElement, CSTNode, CSTNodeType, CSTToken, SyntaxKind } from '../main';
+
+interface CSTFrame {
+	type: CSTNodeType;
+	children: CSTElement[];
+	valueParsed: boolean; // for the document and properties, whether the value has been parsed
+}
+
+/**
+ * Parses the given text into a concrete syntax tree. Every token of the scanner, trivia included, is a leaf of the tree. Trivia belongs to the
+ * innermost node that is open when it is scanned, and tokens which don't fit the grammar are kept in the node where they occur, so printing the
+ * tree always gives back the text.
+ */
+export function parseCST(text: string): CSTNode {
+	const tokens: CSTToken[] = [];
+	const scanner = createScanner(text, false);
+	while (scanner.scan() !== SyntaxKind.EOF) {
+		const offset = scanner.getTokenOffset();
+		const length = scanner.getTokenLength();
+		tokens.push({ type: 'token', kind: scanner.getToken(), text: text.substr(offset, length), offset, length, error: scanner.getTokenError() });
+	}
+	let index = 0;
+
+	// the nodes which are being parsed, innermost last, in place of recursion so that deeply nested documents don't overflow the call stack
+	const stack: CSTFrame[] = [{ type: 'document', children: [], valueParsed: false }];
+
+	function peek(): SyntaxKind {
+		return index < tokens.length ? tokens[index].kind : SyntaxKind.EOF;
+	}
+
+	function skipTrivia(children: CSTElement[]): void {
+		while (isTrivia(peek())) {
+			children.push(tokens[index++]);
+		}
+	}
+
+	function openNode(type: CSTNodeType): void {
+		stack.push({ type, children: [tokens[index++]], valueParsed: false });
+	}
+
+	function closeNode(): void {
+		const frame = stack.pop()!;
+		stack[stack.length - 1].children.push(createNode(frame.type, frame.children));
+	}
+
+	/**
+	 * Adds the trivia and the value which follow to the children. An object or array is opened and parsed by the next iterations.
+	 */
+	function parseValue(children: CSTElement[]): boolean {
+		skipTrivia(children);
+		switch (peek()) {
+			case SyntaxKind.OpenBraceToken:
+				openNode('object');
+				return true;
+			case SyntaxKind.OpenBracketToken:
+				openNode('array');
+				return true;
+			case SyntaxKind.StringLiteral:
+			case SyntaxKind.NumericLiteral:
+			case SyntaxKind.TrueKeyword:
+			case SyntaxKind.FalseKeyword:
+			case SyntaxKind.NullKeyword:
+			case SyntaxKind.InfinityKeyword:
+			case SyntaxKind.NaNKeyword:
+				children.push(tokens[index++]);
+				return true;
+			default:
+				return false;
+		}
+	}
+
+	while (true) {
+		const frame = stack[stack.length - 1];
+		const children = frame.children;
+		switch (frame.type) {
+			case 'document':
+				if (!frame.valueParsed) {
+					frame.valueParsed = true;
+					parseValue(children);
+					break;
+				}
+				while (index < tokens.length) {
+					children.push(tokens[index++]);
+				}
+				return createNode('document', children);
+			case 'property':
+				if (!frame.valueParsed) {
+					frame.valueParsed = true;
+					skipTrivia(children);
+					if (peek() === SyntaxKind.ColonToken) {
+						children.push(tokens[index++]);
+						parseValue(children);
+						break;
+					}
+				}
+				closeNode();
+				break;
+			case 'object': {
+				skipTrivia(children);
+				const token = peek();
+				if (token === SyntaxKind.EOF) {
+					closeNode();
+				} else if (token === SyntaxKind.CloseBraceToken) {
+					children.push(tokens[index++]);
+					closeNode();
+				} else if (isPropertyName(token)) {
+					openNode('property');
+				} else {
+					children.push(tokens[index++]); // a comma, or a token which doesn't belong here
+				}
+				break;
+			}
+			case 'array': {
+				skipTrivia(children);
+				const token = peek();
+				if (token === SyntaxKind.EOF) {
+					closeNode();
+				} else if (token === SyntaxKind.CloseBracketToken) {
+					children.push(tokens[index++]);
+					closeNode();
+				} else if (!parseValue(children)) {
+					children.push(tokens[index++]); // a comma, or a token which doesn't belong here
+				}
+				break;
+			}
+		}
+	}
+}
+
+/**
+ * Returns the text of a concrete syntax tree or one of its elements.
+ */
+export function printCST(element: CSTElement): string {
+	const texts: string[] = [];
+	const elements: CSTElement[] = [element]; // the elements to print, the next one last
+	while (elements.length > 0) {
+		const current = elements.pop()!;
+		if (current.type === 'token') {
+			texts.push(current.text);
+		} else {
+			for (let i = current.children.length - 1; i >= 0; i--) {
+				elements.push(current.children[i]);
+			}
+		}
+	}
+	return texts.join('');
+}
+
+function createNode(type: CSTNodeType, children: CSTElement[]): CSTNode {
+	if (children.length === 0) {
+		return { type, offset: 0, length: 0, children };
+	}
+	const first = children[0];
+	const last = children[children.length - 1];
+	return { type, offset: first.offset, length: last.offset + last.length - first.offset, children };
+}
+
+function isTrivia(token: SyntaxKind): boolean {
+	return token === SyntaxKind.Trivia || token === SyntaxKind.LineBreakTrivia || token === SyntaxKind.LineCommentTrivia || token === SyntaxKind.BlockCommentTrivia;
+}
+
+function isPropertyName(token: SyntaxKind): boolean {
+	switch (token) {
+		case SyntaxKind.StringLiteral:
+		case SyntaxKind.Identifier:
+		case SyntaxKind.TrueKeyword:
+		case SyntaxKind.FalseKeyword:
+		case SyntaxKind.NullKeyword:
+		case SyntaxKind.InfinityKeyword:
+		case SyntaxKind.NaNKeyword:
+			return true;
+		default:
+			return false;
+	}
+}
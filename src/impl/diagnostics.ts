@@ -0,0 +1,92 @@
+import { repeat } from './format';
+import { ParseError, ParseErrorCode } from '../main';
+
+const messages: { [code in ParseErrorCode]: string } = {
+	[ParseErrorCode.InvalidSymbol]: 'Invalid symbol',
+	[ParseErrorCode.InvalidNumberFormat]: 'Invalid number format',
+	[ParseErrorCode.PropertyNameExpected]: 'Property name expected',
+	[ParseErrorCode.ValueExpected]: 'Value expected',
+	[ParseErrorCode.ColonExpected]: 'Colon expected',
+	[ParseErrorCode.CommaExpected]: 'Comma expected',
+	[ParseErrorCode.CloseBraceExpected]: 'Closing brace expected',
+	[ParseErrorCode.CloseBracketExpected]: 'Closing bracket expected',
+	[ParseErrorCode.EndOfFileExpected]: 'End of file expected',
+	[ParseErrorCode.UnexpectedEndOfComment]: 'Unexpected end of comment',
+	[ParseErrorCode.UnexpectedEndOfString]: 'Unexpected end of string',
+	[ParseErrorCode.InvalidString]: 'Invalid string',
+	[ParseErrorCode.NonFiniteNumber]: 'Infinity and NaN are not allowed',
+	[ParseErrorCode.InvalidCommentToken]: 'Comments are not allowed',
+	[ParseErrorCode.TrailingComma]: 'Trailing commas are not allowed',
+	[ParseErrorCode.SingleQuotedString]: 'Strings must use double quotes',
+	[ParseErrorCode.UnquotedPropertyName]: 'Property names must be quoted',
+	[ParseErrorCode.HexadecimalNumber]: 'Hexadecimal numbers are not allowed',
+	[ParseErrorCode.LeadingPlusSign]: 'Numbers can\'t have a leading plus sign',
+	[ParseErrorCode.LeadingOrTrailingDecimalPoint]: 'Numbers can\'t have a leading or trailing decimal point',
+	[ParseErrorCode.LineContinuation]: 'Line continuations are not allowed',
+	[ParseErrorCode.InvalidEscapeSequence]: 'Invalid escape sequence',
+	[ParseErrorCode.DuplicateKey]: 'Duplicate key',
+	[ParseErrorCode.PrototypeKey]: 'The property names __proto__ and constructor are not allowed',
+	[ParseErrorCode.LimitExceeded]: 'Limit exceeded',
+	[ParseErrorCode.PrecisionLoss]: 'The number can\'t be represented exactly',
+	[ParseErrorCode.InvalidHexEscape]: 'A \\x escape sequence needs two hexadecimal digits',
+	[ParseErrorCode.InvalidUnicodeEscape]: 'A \\u escape sequence needs four hexadecimal digits',
+	[ParseErrorCode.MissingHexDigits]: 'Hexadecimal digits expected',
+	[ParseErrorCode.MultipleDecimalPoints]: 'A number can have only one decimal point',
+	[ParseErrorCode.UnexpectedLineSeparator]: 'Line and paragraph separators are only allowed in strings',
+	[ParseErrorCode.InvalidWhitespace]: 'Only spaces, tabs and line breaks are allowed as whitespace',
+	[ParseErrorCode.UnescapedControlCharacter]: 'Control characters in strings must be escaped'
+};
+
+// Lines of text which are shown around the lines of an error.
+const contextLines = 2;
+
+/**
+ * Creates a parse error, computing the line and character where it ends from the text it spans.
+ */
+export function createParseError(text: string, error: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number): ParseError {
+	const span = text.substr(offset, length);
+	const lineBreak = /\r\n|[\r\n\u2028\u2029]/g;
+	let endLine = startLine;
+	let lastLineStart = -1;
+	while (lineBreak.exec(span) !== null) {
+		endLine++;
+		lastLineStart = lineBreak.lastIndex;
+	}
+	const endCharacter = lastLineStart === -1 ? startCharacter + span.length : span.length - lastLineStart;
+	return { error, offset, length, startLine, startCharacter, endLine, endCharacter };
+}
+
+/**
+ * Returns a message for the error, followed by the line and character where it starts, both 1-based.
+ */
+export function formatErrorMessage(error: ParseErrorCode, startLine: number, startCharacter: number): string {
+	return `${messages[error]} (${startLine + 1}:${startCharacter + 1})`;
+}
+
+/**
+ * Returns a message for the error followed by the lines of text around it, in which the error is underlined.
+ */
+export function formatParseError(text: string, error: ParseError): string {
+	const lines = text.split(/\r\n|[\r\n\u2028\u2029]/);
+	// an error which ends with a line break doesn't reach into the next line
+	const lastErrorLine = error.endLine > error.startLine && error.endCharacter === 0 ? error.endLine - 1 : error.endLine;
+	const firstLine = Math.max(error.startLine - contextLines, 0);
+	const lastLine = Math.min(lastErrorLine + contextLines, lines.length - 1);
+	const gutterWidth = String(lastLine + 1).length;
+
+	const result = [formatErrorMessage(error.error, error.startLine, error.startCharacter)];
+	for (let line = firstLine; line <= lastLine; line++) {
+		const lineText = lines[line];
+		const lineNumber = String(line + 1);
+		const isErrorLine = line >= error.startLine && line <= lastErrorLine;
+		const gutter = `${isErrorLine ? '>' : ' '} ${repeat(' ', gutterWidth - lineNumber.length)}${lineNumber} |`;
+		result.push(lineText ? `${gutter} ${lineText}` : gutter);
+		if (isErrorLine) {
+			const start = line === error.startLine ? error.startCharacter : 0;
+			const end = line === error.endLine ? error.endCharacter : lineText.length;
+			const indent = lineText.substring(0, start).replace(/[^\t]/g, ' '); // keeps tabs, so that the underline lines up
+			result.push(`  ${repeat(' ', gutterWidth)} | ${indent}${repeat('^', Math.max(end - start, 1))}`);
+		}
+	}
+	return result.join('\n');
+}
@@ -0,0 +1,256 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import { format, isEOL } from './format';
+import { findNodeAtLocation, parseTree } from './parser';
+import { createScanner } from './scanner';
+import { stringify, stringifyPropertyName } from './stringify';
+import { Edit, ModificationOptions, Node, ParseError, Path, Segment, SyntaxKind } from '../main';
+
+export function setProperty(text: string, originalPath: Path, value: any, options: ModificationOptions): Edit[] {
+	const path = originalPath.slice();
+	const errors: ParseError[] = [];
+	const root = parseTree(text, errors);
+	let parent: Node | undefined = void 0;
+
+	let lastSegment: Segment | undefined = void 0;
+	while (path.length > 0) {
+		lastSegment = path.pop();
+		parent = findNodeAtLocation(root, path);
+		if (parent === void 0 && value !== void 0) {
+			if (typeof lastSegment === 'string') {
+				value = { [lastSegment]: value };
+			} else {
+				value = [value];
+			}
+		} else {
+			break;
+		}
+	}
+
+	if (!parent) {
+		// empty document or replacing the root
+		if (value === void 0) { // delete
+			throw new Error('Can not delete in empty document');
+		}
+		return withFormatting(text, { offset: root ? root.offset : 0, length: root ? root.length : 0, content: toContent(value) }, options);
+	} else if (parent.type === 'object' && typeof lastSegment === 'string' && Array.isArray(parent.children)) {
+		const existing = findNodeAtLocation(parent, [lastSegment]);
+		if (existing !== void 0) {
+			if (value === void 0) { // delete
+				if (!existing.parent) {
+					throw new Error('Malformed AST');
+				}
+				return withFormatting(text, getRemovalEdit(text, parent, parent.children.indexOf(existing.parent)), options);
+			} else {
+				// set value of existing property
+				return withFormatting(text, { offset: existing.offset, length: existing.length, content: toContent(value) }, options);
+			}
+		} else {
+			if (value === void 0) { // delete
+				return []; // property does not exist, nothing to do
+			}
+			const newProperty = `${stringifyPropertyName(lastSegment)}: ${toContent(value)}`;
+			const index = options.getInsertionIndex
+				? Math.max(0, Math.min(options.getInsertionIndex(parent.children.map(p => p.children![0].value)), parent.children.length))
+				: parent.children.length;
+			let edit: Edit;
+			if (index > 0) {
+				const previous = parent.children[index - 1];
+				edit = { offset: previous.offset + previous.length, length: 0, content: ',' + newProperty };
+			} else if (parent.children.length === 0) {
+				edit = { offset: parent.offset + 1, length: 0, content: newProperty };
+			} else {
+				edit = { offset: parent.offset + 1, length: 0, content: newProperty + ',' };
+			}
+			return withFormatting(text, edit, options);
+		}
+	} else if (parent.type === 'array' && typeof lastSegment === 'number' && Array.isArray(parent.children)) {
+		const index = lastSegment;
+		if (index === -1) {
+			// append
+			if (value === void 0) {
+				throw new Error('Can not remove Array index -1');
+			}
+			const newItem = toContent(value);
+			let edit: Edit;
+			if (parent.children.length === 0) {
+				edit = { offset: parent.offset + 1, length: 0, content: newItem };
+			} else {
+				const previous = parent.children[parent.children.length - 1];
+				edit = { offset: previous.offset + previous.length, length: 0, content: ',' + newItem };
+			}
+			return withFormatting(text, edit, options);
+		} else if (value === void 0 && index < parent.children.length) {
+			// removal
+			return withFormatting(text, getRemovalEdit(text, parent, index), options);
+		} else if (value !== void 0) {
+			const newItem = toContent(value);
+			let edit: Edit;
+			if (!options.isArrayInsertion && index < parent.children.length) {
+				const toModify = parent.children[index];
+				edit = { offset: toModify.offset, length: toModify.length, content: newItem };
+			} else if (parent.children.length === 0 || index === 0) {
+				edit = { offset: parent.offset + 1, length: 0, content: parent.children.length === 0 ? newItem : newItem + ',' };
+			} else {
+				const previous = parent.children[Math.min(index, parent.children.length) - 1];
+				edit = { offset: previous.offset + previous.length, length: 0, content: ',' + newItem };
+			}
+			return withFormatting(text, edit, options);
+		} else {
+			throw new Error(`Can not remove Array index ${index} as length is not sufficient`);
+		}
+	} else {
+		throw new Error(`Can not add ${typeof lastSegment !== 'number' ? 'property' : 'index'} to parent of type ${parent.type}`);
+	}
+}
+
+function toContent(value: any): string {
+	const content = stringify(value);
+	if (content === undefined) {
+		throw new Error(`Can not serialize value of type ${typeof value}`);
+	}
+	return content;
+}
+
+/**
+ * If the first non-trivia token at the given offset is a comma, returns the offset after it. Otherwise returns the given offset.
+ */
+function skipTrailingComma(text: string, offset: number): number {
+	const scanner = createScanner(text, true);
+	scanner.setPosition(offset);
+	if (scanner.scan() === SyntaxKind.CommaToken) {
+		return scanner.getPosition();
+	}
+	return offset;
+}
+
+/**
+ * Returns the edit which removes the child at the given index from an object or array, together with a comma. The comments around the child
+ * are kept.
+ */
+function getRemovalEdit(text: string, parent: Node, index: number): Edit {
+	const children = parent.children!;
+	const toRemove = children[index];
+	const end = toRemove.offset + toRemove.length;
+	const commaEnd = skipTrailingComma(text, end);
+	if (index < children.length - 1) {
+		// remove the comma after the child, and the whitespace up to the next child
+		const next = children[index + 1];
+		const removeEnd = hasComments(text, commaEnd, next.offset) ? commaEnd : next.offset;
+		return { offset: toRemove.offset, length: removeEnd - toRemove.offset, content: '' };
+	}
+	if (index === 0) {
+		// only child
+		const removeBegin = hasComments(text, parent.offset + 1, toRemove.offset) ? toRemove.offset : parent.offset + 1;
+		return { offset: removeBegin, length: commaEnd - removeBegin, content: '' };
+	}
+	// last child, remove the comma before it
+	const previous = children[index - 1];
+	const comma = findComma(text, previous.offset + previous.length);
+	if (comma === -1) {
+		return { offset: previous.offset + previous.length, length: end - previous.offset - previous.length, content: '' };
+	}
+	if (!hasComments(text, comma + 1, toRemove.offset)) {
+		return { offset: comma, length: end - comma, content: '' };
+	}
+	if (commaEnd > end) {
+		// the trailing comma takes the place of the comma before the child, the line of the child goes if nothing else is on it
+		const lineStart = Math.max(text.lastIndexOf('\n', toRemove.offset), text.lastIndexOf('\r', toRemove.offset)) + 1;
+		const lineEnd = /^[ \t]*(\r\n|\r|\n)/.exec(text.substring(commaEnd));
+		if (lineEnd && /^[ \t]*$/.test(text.substring(lineStart, toRemove.offset))) {
+			return { offset: lineStart, length: commaEnd + lineEnd[0].length - lineStart, content: '' };
+		}
+		return { offset: toRemove.offset, length: commaEnd - toRemove.offset, content: '' };
+	}
+	return { offset: comma, length: end - comma, content: text.substring(comma + 1, toRemove.offset) };
+}
+
+/**
+ * Returns the offset of the comma which is the first non-trivia token at the given offset, or -1 if there is none.
+ */
+function findComma(text: string, offset: number): number {
+	const scanner = createScanner(text, true);
+	scanner.setPosition(offset);
+	return scanner.scan() === SyntaxKind.CommaToken ? scanner.getTokenOffset() : -1;
+}
+
+/**
+ * Returns true if there is a comment between the given offsets.
+ */
+function hasComments(text: string, begin: number, end: number): boolean {
+	const scanner = createScanner(text, false);
+	scanner.setPosition(begin);
+	for (let token = scanner.scan(); token !== SyntaxKind.EOF && scanner.getTokenOffset() < end; token = scanner.scan()) {
+		if (token === SyntaxKind.LineCommentTrivia || token === SyntaxKind.BlockCommentTrivia) {
+			return true;
+		}
+	}
+	return false;
+}
+
+function withFormatting(text: string, edit: Edit, options: ModificationOptions): Edit[] {
+	if (!options.formattingOptions) {
+		return [edit];
+	}
+	// apply the edit
+	let newText = applyEdit(text, edit);
+
+	// format the new text
+	let begin = edit.offset;
+	let end = edit.offset + edit.content.length;
+	if (edit.length === 0 || edit.content.length === 0) { // insert or remove
+		while (begin > 0 && !isEOL(newText, begin - 1)) {
+			begin--;
+		}
+		while (end < newText.length && !isEOL(newText, end)) {
+			end++;
+		}
+	}
+
+	const edits = format(newText, { offset: begin, length: end - begin }, options.formattingOptions);
+
+	// apply the formatting edits and track the begin and end offsets of the changes
+	for (let i = edits.length - 1; i >= 0; i--) {
+		const formatEdit = edits[i];
+		newText = applyEdit(newText, formatEdit);
+		begin = Math.min(begin, formatEdit.offset);
+		end = Math.max(end, formatEdit.offset + formatEdit.length);
+		end += formatEdit.content.length - formatEdit.length;
+	}
+	// create a single edit with all changes
+	const editLength = text.length - (newText.length - end) - begin;
+	return [{ offset: begin, length: editLength, content: newText.substring(begin, end) }];
+}
+
+export function applyEdits(text: string, edits: Edit[]): string {
+	// the index keeps the order of the inserts at the same offset, sort isn't stable in every engine
+	const sortedEdits = edits.map((edit, index) => ({ edit, index })).sort((a, b) => {
+		const diff = a.edit.offset - b.edit.offset;
+		if (diff === 0) {
+			return a.edit.length - b.edit.length || a.index - b.index;
+		}
+		return diff;
+	}).map(entry => entry.edit);
+	let lastModifiedOffset = text.length;
+	for (let i = sortedEdits.length - 1; i >= 0; i--) {
+		const edit = sortedEdits[i];
+		if (edit.offset < 0 || edit.length < 0 || edit.offset + edit.length > text.length) {
+			throw new Error(`Edit at offset ${edit.offset} with length ${edit.length} is out of bounds`);
+		}
+		if (edit.offset + edit.length > lastModifiedOffset) {
+			const next = sortedEdits[i + 1];
+			throw new Error(`Overlapping edits at offset ${edit.offset} with length ${edit.length} and at offset ${next.offset} with length ${next.length}`);
+		}
+		text = applyEdit(text, edit);
+		lastModifiedOffset = edit.offset;
+	}
+	return text;
+}
+
+export function applyEdit(text: string, edit: Edit): string {
+	return text.substring(0, edit.offset) + edit.content + text.substring(edit.offset + edit.length);
+}
@@ -16,7 +16,11 @@ export type ScanFailure = {
 };
 export type ScanResult = ScanSuccess | ScanFailure;
 
-type Scanner = (input: string) => ScanResult;
+/**
+ * Scans the input starting at the given offset. Scanners never copy the input, so scanning takes time proportional to the length of the
+ * scanned text rather than to the length of the input.
+ */
+type Scanner = (input: string, offset: number) => ScanResult;
 
 export function isSuccess(result: ScanResult): result is ScanSuccess {
 	return (
@@ -74,14 +78,14 @@ function concatenate(
 }
 
 function withSyntaxKind(syntaxKind: SyntaxKind, scanner: Scanner): Scanner {
-	return input => {
-		return { ...scanner(input), syntaxKind };
+	return (input, offset) => {
+		return { ...scanner(input, offset), syntaxKind };
 	};
 }
 
 function literal(text: string): Scanner {
-	return input => {
-		if (input.startsWith(text)) {
+	return (input, offset) => {
+		if (input.startsWith(text, offset)) {
 			return {
 				success: true,
 				length: text.length,
@@ -96,8 +100,8 @@ function literal(text: string): Scanner {
 }
 
 function literalLineBreak(text: string): Scanner {
-	return input => {
-		if (input.startsWith(text)) {
+	return (input, offset) => {
+		if (input.startsWith(text, offset)) {
 			return {
 				success: true,
 				length: text.length,
@@ -111,10 +115,14 @@ function literalLineBreak(text: string): Scanner {
 	};
 }
 
-function match(pattern: RegExp): Scanner {
-	return input => {
-		const match = pattern.exec(input);
-		if (match !== null && match.index === 0) {
+/**
+ * Matches a sticky (`y` flag) regular expression at the offset.
+ */
+function match(stickyPattern: RegExp): Scanner {
+	return (input, offset) => {
+		stickyPattern.lastIndex = offset;
+		const match = stickyPattern.exec(input);
+		if (match !== null) {
 			return {
 				success: true,
 				length: match[0].length,
@@ -129,18 +137,19 @@ function match(pattern: RegExp): Scanner {
 }
 
 function combineAnd(first: Scanner, second: Scanner): Scanner {
-	return input => {
-		const firstResult = first(input);
+	return (input, offset) => {
+		const firstResult = first(input, offset);
 		if (isFailure(firstResult)) {
 			return firstResult;
 		}
 
-		const remainingInput = input.substring(firstResult.length);
-		const secondResult = second(remainingInput);
+		const secondResult = second(input, offset + firstResult.length);
 		if (isFailure(secondResult)) {
+			// keep the line breaks of the first part, so that the positions after a failed token are right
 			return {
-				...secondResult,
-				length: firstResult.length + secondResult.length
+				...concatenate(firstResult, { ...secondResult, success: true }),
+				success: false,
+				syntaxKind: secondResult.syntaxKind
 			};
 		}
 
@@ -153,12 +162,12 @@ function and(...scanners: [Scanner, Scanner, ...Scanner[]]): Scanner {
 }
 
 function combineOr(first: Scanner, second: Scanner): Scanner {
-	return input => {
-		const firstResult = first(input);
+	return (input, offset) => {
+		const firstResult = first(input, offset);
 		if (isSuccess(firstResult)) {
 			return firstResult;
 		} else {
-			const secondResult = second(input);
+			const secondResult = second(input, offset);
 			if (isSuccess(secondResult)) {
 				return secondResult;
 			} else {
@@ -178,9 +187,9 @@ function or(...scanners: [Scanner, Scanner, ...Scanner[]]): Scanner {
 }
 
 function combineLongest(first: Scanner, second: Scanner): Scanner {
-	return input => {
-		const firstResult = first(input);
-		const secondResult = second(input);
+	return (input, offset) => {
+		const firstResult = first(input, offset);
+		const secondResult = second(input, offset);
 		if (isFailure(firstResult) && isFailure(secondResult)) {
 			// Return the error that covers more input text.
 			if (firstResult.length >= secondResult.length) {
@@ -205,16 +214,18 @@ function longest(...scanners: [Scanner, Scanner, ...Scanner[]]): Scanner {
 }
 
 function zeroOrMore(scanner: Scanner): Scanner {
-	const zeroOrMoreScanner = (input: string): ScanSuccess => {
-		const result = optional(scanner)(input);
-		if (isFailure(result) || (isSuccess(result) && result.length === 0)) {
-			return emptySuccess;
-		} else {
-			const remainingInput = input.substring(result.length);
-			return concatenate(result, zeroOrMoreScanner(remainingInput));
+	const optionalScanner = optional(scanner);
+	// A loop rather than recursion, so that long strings and comments can't overflow the stack.
+	return (input: string, offset: number): ScanSuccess => {
+		let result = emptySuccess;
+		while (true) {
+			const nextResult = optionalScanner(input, offset + result.length);
+			if (!isSuccess(nextResult) || nextResult.length === 0) {
+				return result;
+			}
+			result = concatenate(result, nextResult);
 		}
 	};
-	return zeroOrMoreScanner;
 }
 
 function oneOrMore(scanner: Scanner): Scanner {
@@ -226,10 +237,10 @@ function optional(scanner: Scanner): Scanner {
 }
 
 function butNot(scanner: Scanner, not: Scanner): Scanner {
-	return input => {
-		const result = scanner(input);
+	return (input, offset) => {
+		const result = scanner(input, offset);
 		if (isSuccess(result)) {
-			if (isSuccess(not(input))) {
+			if (isSuccess(not(input, offset))) {
 				return {
 					success: false,
 					length: result.length,
@@ -244,11 +255,10 @@ function butNot(scanner: Scanner, not: Scanner): Scanner {
 }
 
 function lookaheadNot(scanner: Scanner, notFollowedBy: Scanner): Scanner {
-	return input => {
-		const result = scanner(input);
+	return (input, offset) => {
+		const result = scanner(input, offset);
 		if (isSuccess(result)) {
-			const remainingInput = input.substring(result.length);
-			if (isSuccess(notFollowedBy(remainingInput))) {
+			if (isSuccess(notFollowedBy(input, offset + result.length))) {
 				return {
 					success: false,
 					length: result.length,
@@ -266,15 +276,15 @@ function lookaheadNot(scanner: Scanner, notFollowedBy: Scanner): Scanner {
 
 // HexDigit :: one of
 // 	0 1 2 3 4 5 6 7 8 9 a b c d e f A B C D E F
-const hexDigit: Scanner = match(/^[0-9a-fA-F]/);
+const hexDigit: Scanner = match(/[0-9a-fA-F]/y);
 
 // DecimalDigit :: one of
 // 	0 1 2 3 4 5 6 7 8 9
-const decimalDigit: Scanner = match(/^[0-9]/);
+const decimalDigit: Scanner = match(/[0-9]/y);
 
 // NonZeroDigit :: one of
 // 	1 2 3 4 5 6 7 8 9
-const nonZeroDigit: Scanner = match(/^[1-9]/);
+const nonZeroDigit: Scanner = match(/[1-9]/y);
 
 // ExponentIndicator :: one of
 // 	e E
@@ -331,12 +341,29 @@ const decimalLiteral: Scanner = or(
 	and(decimalIntegerLiteral, optional(exponentPart))
 );
 
+// Note: not part of the grammar. A hexadecimal prefix without digits and a
+// number with more than one decimal point are scanned as one numeric literal,
+// so that the mistake is reported as such rather than as a number followed by
+// an unexpected token. The error is found when the number is checked.
+const malformedNumericLiteral: Scanner = or(
+	literal('0x'),
+	literal('0X'),
+	and(
+		or(
+			and(decimalIntegerLiteral, literal('.'), optional(decimalDigits)),
+			and(literal('.'), decimalDigits)
+		),
+		oneOrMore(and(literal('.'), optional(decimalDigits))),
+		optional(exponentPart)
+	)
+);
+
 // NumericLiteral ::
 // 	DecimalLiteral
 // 	HexIntegerLiteral
 const numericLiteral: Scanner = withSyntaxKind(
 	SyntaxKind.NumericLiteral,
-	or(hexIntegerLiteral, decimalLiteral)
+	longest(or(hexIntegerLiteral, decimalLiteral), malformedNumericLiteral)
 );
 
 // Infinity
@@ -455,8 +482,8 @@ const escapeCharacter: Scanner = or(
 
 // SourceCharacter ::
 // 	any Unicode code unit
-const sourceCharacter: Scanner = input => {
-	const codePoint = input.codePointAt(0);
+const sourceCharacter: Scanner = (input, offset) => {
+	const codePoint = input.codePointAt(offset);
 	if (codePoint !== undefined) {
 		return {
 			success: true,
@@ -503,6 +530,15 @@ const escapeSequence: Scanner = or(
 	unicodeEscapeSequence
 );
 
+// Note: not part of the grammar. A backslash followed by anything but a line
+// terminator is scanned as part of the string, so that a string with an
+// invalid escape sequence is still one token. The escape sequence is reported
+// when the string is decoded.
+const invalidEscapeSequence: Scanner = and(
+	literal('\\'),
+	optional(butNot(sourceCharacter, lineTerminator))
+);
+
 // JSON5SingleStringCharacter ::
 // 	SourceCharacter but not one of ' or \ or LineTerminator
 // 	\ EscapeSequence
@@ -514,7 +550,8 @@ const json5SingleStringCharacter: Scanner = or(
 	and(literal('\\'), escapeSequence),
 	lineContinuation,
 	literal('\u2028'),
-	literal('\u2029')
+	literal('\u2029'),
+	invalidEscapeSequence
 );
 
 // JSON5DoubleStringCharacter ::
@@ -528,7 +565,8 @@ const json5DoubleStringCharacter: Scanner = or(
 	and(literal('\\'), escapeSequence),
 	lineContinuation,
 	literal('\u2028'),
-	literal('\u2029')
+	literal('\u2029'),
+	invalidEscapeSequence
 );
 
 // JSON5SingleStringCharacters ::
@@ -599,23 +637,23 @@ const json5Punctuator: Scanner = or(
 
 // UnicodeConnectorPunctuation ::
 // 	any character in the Unicode category "Connector punctuation (Pc)"
-const unicodeConnectorPunctuation: Scanner = match(/^\p{Pc}/u);
+const unicodeConnectorPunctuation: Scanner = match(/\p{Pc}/uy);
 
 // UnicodeDigit ::
 // 	any character in the Unicode category "Decimal number (Nd)"
-const unicodeDigit: Scanner = match(/^\p{Nd}/u);
+const unicodeDigit: Scanner = match(/\p{Nd}/uy);
 
 // UnicodeCombiningMark ::
 // 	any character in the Unicode categories "Non-spacing mark (Mn)" or
 // 		"Combining spacing mark (Mc)"
-const unicodeCombiningMark: Scanner = match(/^\p{Mn}|^\p{Mc}/u);
+const unicodeCombiningMark: Scanner = match(/\p{Mn}|\p{Mc}/uy);
 
 // UnicodeLetter ::
 // 	any character in the Unicode categories "Uppercase letter (Lu)", "Lowercase
 //		letter (Ll)", "Titlecase letter (Lt)", "Modifier letter (Lm)", "Other
 //		letter (Lo)", or "Letter number (Nl)".
 const unicodeLetter: Scanner = match(
-	/^\p{Lu}|^\p{Ll}|^\p{Lt}|^\p{Lm}|^\p{Lo}|^\p{Nl}/u
+	/\p{Lu}|\p{Ll}|\p{Lt}|\p{Lm}|\p{Lo}|\p{Nl}/uy
 );
 
 // IdentifierStart ::
@@ -762,7 +800,7 @@ const whiteSpace: Scanner = withSyntaxKind(
 			literal('\u0020'),
 			literal('\u00A0'),
 			literal('\uFEFF'),
-			match(/^\p{Zs}/u)
+			match(/\p{Zs}/uy)
 		)
 	)
 );
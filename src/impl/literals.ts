@@ -0,0 +1,123 @@
+import { ScanError } from '../main';
+
+const singleEscapes: { [character: string]: string } = {
+	'\'': '\'',
+	'"': '"',
+	'\\': '\\',
+	'b': '\b',
+	'f': '\f',
+	'n': '\n',
+	'r': '\r',
+	't': '\t',
+	'v': '\v'
+};
+
+const identifierStart = /[$_\p{L}\p{Nl}]/u;
+const identifierPart = /[$_\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}\u200C\u200D]/u;
+
+/**
+ * Called for an error in a literal, with its kind and its offset and length in the lexeme.
+ */
+export type LiteralErrorCallback = (error: ScanError, offset: number, length: number) => void;
+
+/**
+ * Returns the value of a string literal. The lexeme starts with its quote and may lack the closing quote. Invalid escape sequences are left
+ * out of the value.
+ */
+export function decodeString(lexeme: string, onError?: LiteralErrorCallback): string {
+	const quote = lexeme.charAt(0);
+	let value = '';
+	let start = 1; // of the characters which are copied as they are
+	let i = 1;
+	while (i < lexeme.length) {
+		const ch = lexeme.charAt(i);
+		if (ch === quote) {
+			break;
+		}
+		if (ch !== '\\') {
+			i++;
+			continue;
+		}
+		value += lexeme.substring(start, i);
+		const escape = decodeEscapeSequence(lexeme, i, onError);
+		value += escape.value;
+		i += escape.length;
+		start = i;
+	}
+	return value + lexeme.substring(start, i);
+}
+
+/**
+ * Returns the value of an identifier, in which characters can be written as `\u` escape sequences. Escape sequences which don't stand for a
+ * character that is allowed at their position are reported, but decoded all the same.
+ */
+export function decodeIdentifier(lexeme: string, onError?: LiteralErrorCallback): string {
+	if (lexeme.indexOf('\\') === -1) {
+		return lexeme;
+	}
+	let value = '';
+	let i = 0;
+	while (i < lexeme.length) {
+		if (lexeme.charAt(i) === '\\') {
+			const hexDigits = lexeme.substr(i + 2, 4);
+			const character = /^[0-9a-fA-F]{4}$/.test(hexDigits) ? String.fromCharCode(parseInt(hexDigits, 16)) : '';
+			if (!(i === 0 ? identifierStart : identifierPart).test(character) && onError) {
+				onError(ScanError.InvalidEscapeCharacter, i, Math.min(6, lexeme.length - i));
+			}
+			value += character;
+			i += 6;
+		} else {
+			value += lexeme.charAt(i);
+			i++;
+		}
+	}
+	return value;
+}
+
+/**
+ * Decodes the escape sequence at the given offset of the lexeme, which is the offset of its backslash.
+ */
+function decodeEscapeSequence(lexeme: string, offset: number, onError?: LiteralErrorCallback): { value: string; length: number } {
+	const escapeCharacter = lexeme.charAt(offset + 1);
+	if (singleEscapes.hasOwnProperty(escapeCharacter)) {
+		return { value: singleEscapes[escapeCharacter], length: 2 };
+	}
+	switch (escapeCharacter) {
+		case '\r':
+			return { value: '', length: lexeme.charAt(offset + 2) === '\n' ? 3 : 2 };
+		case '\n':
+		case '\u2028':
+		case '\u2029':
+			return { value: '', length: 2 };
+		case 'x':
+		case 'u': {
+			const digitCount = escapeCharacter === 'x' ? 2 : 4;
+			let length = 2;
+			while (length < 2 + digitCount && /[0-9a-fA-F]/.test(lexeme.charAt(offset + length))) {
+				length++;
+			}
+			if (length < 2 + digitCount) {
+				const error = escapeCharacter === 'x' ? ScanError.InvalidHexEscape : ScanError.InvalidUnicodeEscape;
+				return invalidEscapeSequence(error, offset, length, onError);
+			}
+			return { value: String.fromCharCode(parseInt(lexeme.substr(offset + 2, digitCount), 16)), length };
+		}
+		case '':
+			return invalidEscapeSequence(ScanError.InvalidEscapeCharacter, offset, 1, onError);
+		default:
+			if (/[0-9]/.test(escapeCharacter)) {
+				if (escapeCharacter === '0' && !/[0-9]/.test(lexeme.charAt(offset + 2))) {
+					return { value: '\0', length: 2 };
+				}
+				return invalidEscapeSequence(ScanError.InvalidEscapeCharacter, offset, 2, onError);
+			}
+			return { value: escapeCharacter, length: 2 };
+	}
+}
+
+function invalidEscapeSequence(error: ScanError, offset: number, length: number, onError?: LiteralErrorCallback): { value: string; length: number } {
+	if (onError) {
+		onError(error, offset, length);
+	}
+	return { value: '', length };
+}
@@ -0,0 +1,106 @@
+import { ScanError } from '../main';
+import { LiteralErrorCallback } from './literals';
+
+const maxExactInteger = 9007199254740992; // 2^53
+
+/**
+ * Returns the value of a number lexeme: a decimal or hexadecimal number, Infinity or NaN, optionally with a sign.
+ */
+export function decodeNumber(lexeme: string): number {
+	const sign = lexeme.charAt(0);
+	if (sign === '-') {
+		return -Number(lexeme.substring(1));
+	}
+	return Number(sign === '+' ? lexeme.substring(1) : lexeme);
+}
+
+/**
+ * Reports the errors in a malformed number lexeme: a hexadecimal prefix without digits, or more decimal points than one. The error spans the
+ * prefix, or everything from the second decimal point on.
+ */
+export function checkNumber(lexeme: string, onError: LiteralErrorCallback): void {
+	const signLength = /^[+-]/.test(lexeme) ? 1 : 0;
+	if (/^0[xX]$/.test(lexeme.substring(signLength))) {
+		onError(ScanError.MissingHexDigits, signLength, 2);
+		return;
+	}
+	const firstDecimalPoint = lexeme.indexOf('.');
+	const secondDecimalPoint = firstDecimalPoint === -1 ? -1 : lexeme.indexOf('.', firstDecimalPoint + 1);
+	if (secondDecimalPoint !== -1) {
+		onError(ScanError.MultipleDecimalPoints, secondDecimalPoint, lexeme.length - secondDecimalPoint);
+	}
+}
+
+/**
+ * Returns true if the lexeme is an integer, in decimal or hexadecimal notation, which the given number doesn't represent exactly.
+ */
+export function isInexactInteger(lexeme: string, value: number): boolean {
+	const match = /^[+-]?(?:0[xX]([0-9a-fA-F]+)|([0-9]+))$/.exec(lexeme);
+	if (!match) {
+		return false;
+	}
+	if (!isFinite(value)) {
+		return true;
+	}
+	const digits = match[1] ? hexToDecimal(match[1]) : match[2].replace(/^0+(?=.)/, '');
+	return digits !== integerToDecimal(Math.abs(value));
+}
+
+export function hexToDecimal(hexDigits: string): string {
+	const decimalDigits = [0]; // least significant first
+	for (let i = 0; i < hexDigits.length; i++) {
+		let carry = parseInt(hexDigits.charAt(i), 16);
+		for (let j = 0; j < decimalDigits.length; j++) {
+			const digit = decimalDigits[j] * 16 + carry;
+			decimalDigits[j] = digit % 10;
+			carry = Math.floor(digit / 10);
+		}
+		while (carry > 0) {
+			decimalDigits.push(carry % 10);
+			carry = Math.floor(carry / 10);
+		}
+	}
+	return decimalDigits.reverse().join('');
+}
+
+/**
+ * Returns all decimal digits of a finite, non-negative integer number. Unlike `String` and `toFixed`, this never uses exponential notation.
+ */
+function integerToDecimal(value: number): string {
+	if (value < 1e21) {
+		return value.toFixed(0);
+	}
+	// value = mantissa * 2^exponent, where the mantissa is an exact integer
+	let exponent = 0;
+	while (value >= maxExactInteger) {
+		value /= 2;
+		exponent++;
+	}
+	const decimalDigits = value.toFixed(0).split('').reverse().map(Number); // least significant first
+	for (let i = 0; i < exponent; i++) {
+		let carry = 0;
+		for (let j = 0; j < decimalDigits.length; j++) {
+			const digit = decimalDigits[j] * 2 + carry;
+			decimalDigits[j] = digit % 10;
+			carry = Math.floor(digit / 10);
+		}
+		if (carry > 0) {
+			decimalDigits.push(carry);
+		}
+	}
+	return decimalDigits.reverse().join('');
+}
+
+/**
+ * Converts an integer lexeme in decimal or hexadecimal notation to a bigint.
+ */
+export function toBigInt(lexeme: string): bigint {
+	if (typeof BigInt !== 'function') {
+		throw new Error('Can not convert a number to a bigint: BigInt is not supported by this JavaScript engine');
+	}
+	const sign = lexeme.charAt(0);
+	if (sign === '-') {
+		return -BigInt(lexeme.substring(1));
+	}
+	return BigInt(sign === '+' ? lexeme.substring(1) : lexeme);
+}
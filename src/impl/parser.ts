@@ -4,16 +4,23 @@
  *--------------------------------------------------------------------------------------------*/
 'use strict';
 
-import * as JSON5 from 'json5';
+import { createParseError } from './diagnostics';
+import { decodeIdentifier, decodeString, LiteralErrorCallback } from './literals';
+import { checkNumber, decodeNumber, isInexactInteger, toBigInt } from './numbers';
 import { createScanner } from './scanner';
 import {
+	Edit,
 	Path,
+	JSON5Scanner,
 	JSON5Visitor,
 	Location,
 	Node,
+	NodeComment,
 	NodeType,
+	NumberFormat,
 	ParseError,
 	ParseErrorCode,
+	ParsedDocument,
 	ParseOptions,
 	ScanError,
 	Segment,
@@ -28,6 +35,11 @@ interface NodeImpl extends Node {
 	colonOffset?: number;
 	parent?: NodeImpl;
 	children?: NodeImpl[];
+	raw?: string;
+	quote?: '"' | '\'';
+	numberFormat?: NumberFormat;
+	leadingComments?: NodeComment[];
+	trailingComments?: NodeComment[];
 }
 
 /**
@@ -150,54 +162,243 @@ export function getLocation(text: string, position: number): Location {
 }
 
 
+/**
+ * Sets a property of an object or array, like an assignment does, except that a `__proto__` property is an own property.
+ */
+export function assignProperty(object: any, key: Segment, value: any): void {
+	if (key === '__proto__') {
+		// an own property, not the prototype
+		Object.defineProperty(object, key, { value, writable: true, enumerable: true, configurable: true });
+	} else {
+		object[key] = value;
+	}
+}
+
+
 /**
  * Parses the given text and returns the object the JSON5 content represents. On invalid input, the parser tries to be as fault tolerant as possible, but still return a result.
  * Therefore always check the errors list to find out if the input was valid.
  */
 export function parse(text: string, errors: ParseError[] = [], options: ParseOptions = {}): any {
+	const builder = createValueBuilder(text, errors, options);
+	visit(text, builder.visitor, options);
+	return builder.getValue();
+}
+
+/**
+ * Creates a visitor which builds the value of a document like `parse` does, and adds the errors to the given list.
+ */
+function createValueBuilder(text: string, errors: ParseError[], options: ParseOptions): { visitor: JSON5Visitor; getValue: () => any } {
 	let currentProperty: string | null = null;
 	let currentParent: any = [];
 	const previousParents: any[] = [];
+	const firstKeyWins = options.duplicateKeys === 'firstWins';
+	const reviver = options.reviver;
+	const path: Path = []; // the path of currentParent, only maintained if there is a reviver
+	const openContainers: { key: Segment; offset: number; type: NodeType; revive: boolean }[] = [];
 
 	function onValue(value: any) {
 		if (Array.isArray(currentParent)) {
 			(<any[]>currentParent).push(value);
 		} else if (currentProperty !== null) {
-			currentParent[currentProperty] = value;
+			assignProperty(currentParent, currentProperty, value);
+		}
+	}
+
+	/**
+	 * The key of the next value added to currentParent, or null if that value is ignored.
+	 */
+	function nextKey(): Segment | null {
+		if (previousParents.length === 0) {
+			return '';
+		}
+		return Array.isArray(currentParent) ? currentParent.length : currentProperty;
+	}
+
+	function isRevived(): boolean {
+		return openContainers.length === 0 || openContainers[openContainers.length - 1].revive;
+	}
+
+	/**
+	 * Replaces the value with the given key in currentParent with the result of the reviver, like `JSON.parse` does.
+	 */
+	function revive(key: Segment, offset: number, length: number, type: NodeType) {
+		const isRoot = previousParents.length === 0;
+		const holder = isRoot ? { '': currentParent[0] } : currentParent;
+		const value = holder[key];
+		const node: Node = { type, offset, length };
+		const revived = reviver!.call(holder, String(key), value, isRoot ? [] : path.concat(key), node);
+		if (isRoot) {
+			currentParent[0] = revived;
+		} else if (revived === undefined) {
+			delete holder[key];
+		} else {
+			assignProperty(holder, key, revived);
+		}
+	}
+
+	function onContainerBegin(container: any, offset: number) {
+		const key = nextKey();
+		if (reviver) {
+			openContainers.push({ key: key === null ? '' : key, offset, type: Array.isArray(container) ? 'array' : 'object', revive: key !== null && isRevived() });
+			if (previousParents.length > 0) {
+				path.push(key === null ? '' : key);
+			}
+		}
+		onValue(container);
+		previousParents.push(currentParent);
+		currentParent = container;
+		currentProperty = null;
+	}
+
+	function onContainerEnd(offset: number, length: number) {
+		currentParent = previousParents.pop();
+		if (reviver) {
+			const container = openContainers.pop()!;
+			if (previousParents.length > 0) {
+				path.pop();
+			}
+			if (container.revive) {
+				revive(container.key, container.offset, offset + length - container.offset, container.type);
+			}
 		}
 	}
 
 	const visitor: JSON5Visitor = {
-		onObjectBegin: () => {
-			const object = {};
-			onValue(object);
-			previousParents.push(currentParent);
-			currentParent = object;
-			currentProperty = null;
+		onObjectBegin: (offset: number) => {
+			onContainerBegin(options.nullPrototype ? Object.create(null) : {}, offset);
 		},
 		onObjectProperty: (name: string) => {
-			currentProperty = name;
-		},
-		onObjectEnd: () => {
-			currentParent = previousParents.pop();
+			if (firstKeyWins && Object.prototype.hasOwnProperty.call(currentParent, name)) {
+				currentProperty = null; // ignore the value
+			} else {
+				currentProperty = name;
+			}
 		},
-		onArrayBegin: () => {
-			const array: any[] = [];
-			onValue(array);
-			previousParents.push(currentParent);
-			currentParent = array;
-			currentProperty = null;
+		onObjectEnd: onContainerEnd,
+		onArrayBegin: (offset: number) => {
+			onContainerBegin([], offset);
 		},
-		onArrayEnd: () => {
-			currentParent = previousParents.pop();
+		onArrayEnd: onContainerEnd,
+		onLiteralValue: (value: any, offset: number, length: number) => {
+			const key = nextKey();
+			onValue(value);
+			if (reviver && key !== null && isRevived()) {
+				revive(key, offset, length, getLiteralNodeType(text.substr(offset, length)));
+			}
 		},
-		onLiteralValue: onValue,
-		onError: (error: ParseErrorCode, offset: number, length: number) => {
-			errors.push({ error, offset, length });
+		onError: (error: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number) => {
+			errors.push(createParseError(text, error, offset, length, startLine, startCharacter));
 		}
 	};
-	visit(text, visitor, options);
-	return currentParent[0];
+	// the root is in the first parent if parsing stopped inside of a container
+	return { visitor, getValue: () => (previousParents.length > 0 ? previousParents[0] : currentParent)[0] };
+}
+
+/**
+ * Parses a sequence of top-level values, such as concatenated or newline-delimited JSON5 documents, and returns each of them with its
+ * offset range and its own errors. A document ends as soon as its value is complete, or early at a line which starts with `{` or `[` where
+ * it can't have a value, so that the documents after a bad document are still parsed. The errors at the end of an incomplete document are
+ * reported after its last token. The `maxTokens` and `maxDepth` limits apply to each document, and a limit which is exceeded stops parsing.
+ */
+export function parseAll(text: string, options: ParseOptions = {}): ParsedDocument[] {
+	if (options.maxDocumentLength !== undefined && text.length > options.maxDocumentLength) {
+		return [{ value: undefined, offset: 0, length: text.length, errors: [createParseError(text, ParseErrorCode.LimitExceeded, 0, text.length, 0, 0)] }];
+	}
+	const documentOptions: ParseOptions = { ...options, allowEmptyContent: true };
+	const documents: ParsedDocument[] = [];
+	const scanner = createScanner(text, false);
+	let atEnd = false; // true while the end of the current document, after its last token, is passed to the parser
+	const tokens: TokenSource = {
+		getToken: () => atEnd ? SyntaxKind.EOF : scanner.getToken(),
+		getTokenValue: () => atEnd ? '' : scanner.getTokenValue(),
+		getTokenOffset: () => atEnd ? tokenEnd : scanner.getTokenOffset(),
+		getTokenLength: () => atEnd ? 0 : scanner.getTokenLength(),
+		getTokenStartLine: () => atEnd ? tokenEndLine : scanner.getTokenStartLine(),
+		getTokenStartCharacter: () => atEnd ? tokenEndCharacter : scanner.getTokenStartCharacter(),
+		getTokenError: () => atEnd ? ScanError.None : scanner.getTokenError(),
+		getTokenText: () => atEnd ? '' : text.substr(scanner.getTokenOffset(), scanner.getTokenLength())
+	};
+
+	let parser: TokenParser | undefined; // the parser of the current document, while it takes tokens
+	let getValue: () => any;
+	let errors: ParseError[] = [];
+	let valueStart = -1; // the range of the tokens of the current document, without trivia, comments and invalid symbols
+	let valueEnd = -1;
+	let tokenStart = -1; // the range of the tokens of the current document, comments and invalid symbols included
+	let tokenEnd = -1;
+	let tokenEndLine = 0;
+	let tokenEndCharacter = 0;
+
+	function endDocument(): void {
+		atEnd = true;
+		parser!.next();
+		atEnd = false;
+		parser = undefined;
+		if (valueStart !== -1 || errors.length > 0) {
+			const offset = valueStart !== -1 ? valueStart : tokenStart;
+			const end = valueStart !== -1 ? valueEnd : tokenEnd;
+			documents.push({ value: getValue(), offset, length: end - offset, errors });
+		}
+	}
+
+	function startDocument(): void {
+		errors = [];
+		const builder = createValueBuilder(text, errors, options);
+		getValue = builder.getValue;
+		parser = createTokenParser(tokens, builder.visitor, documentOptions);
+		valueStart = valueEnd = tokenStart = tokenEnd = -1;
+	}
+
+	for (let token = scanner.scan(); token !== SyntaxKind.EOF; token = scanner.scan()) {
+		const isTrivia = token === SyntaxKind.Trivia || token === SyntaxKind.LineBreakTrivia;
+		const isComment = token === SyntaxKind.LineCommentTrivia || token === SyntaxKind.BlockCommentTrivia || token === SyntaxKind.Unknown;
+		if (parser && !isTrivia && !isComment && startsLineWithContainer(scanner) && !parser.expectsValue()) {
+			endDocument();
+		}
+		if (!parser) {
+			if (isTrivia) {
+				continue;
+			}
+			startDocument();
+		}
+		if (!isTrivia) {
+			const offset = scanner.getTokenOffset();
+			const end = offset + scanner.getTokenLength();
+			if (tokenStart === -1) {
+				tokenStart = offset;
+			}
+			tokenEnd = end;
+			const endPosition = getEndPosition(scanner.getTokenStartLine(), scanner.getTokenStartCharacter(), text.substring(offset, end));
+			tokenEndLine = endPosition.line;
+			tokenEndCharacter = endPosition.character;
+			if (!isComment) {
+				if (valueStart === -1) {
+					valueStart = offset;
+				}
+				valueEnd = end;
+			}
+		}
+		if (!parser!.next()) {
+			// the parser stopped early, the next token starts a new document
+			endDocument();
+			if (errors.some(error => error.error === ParseErrorCode.LimitExceeded)) {
+				return documents;
+			}
+		} else if (parser!.isComplete()) {
+			// the trivia and comments which follow belong to the next document
+			endDocument();
+		}
+	}
+	if (parser) {
+		endDocument();
+	}
+	return documents;
+}
+
+function startsLineWithContainer(scanner: JSON5Scanner): boolean {
+	const token = scanner.getToken();
+	return scanner.getTokenStartCharacter() === 0 && (token === SyntaxKind.OpenBraceToken || token === SyntaxKind.OpenBracketToken);
 }
 
 
@@ -206,10 +407,15 @@ export function parse(text: string, errors: ParseError[] = [], options: ParseOpt
  */
 export function parseTree(text: string, errors: ParseError[] = [], options: ParseOptions = {}): Node {
 	let currentParent: NodeImpl = { type: 'array', offset: -1, length: -1, children: [], parent: undefined }; // artificial root
+	const attachComments = !!options.attachComments;
+	let pendingComments: { comment: NodeComment; startLine: number; endLine: number }[] = [];
+	let previousNode: NodeImpl | undefined = undefined; // the node which ended last, as long as no other node began after it
+	let previousNodeEndLine = -1;
 
 	function ensurePropertyComplete(endOffset: number) {
 		if (currentParent.type === 'property') {
 			currentParent.length = endOffset - currentParent.offset;
+			previousNode = currentParent;
 			currentParent = currentParent.parent!;
 		}
 	}
@@ -219,31 +425,101 @@ export function parseTree(text: string, errors: ParseError[] = [], options: Pars
 		return valueNode;
 	}
 
+	function createLiteralNode(type: NodeType, value: any, offset: number, length: number): NodeImpl {
+		const node: NodeImpl = { type, value, offset, length, parent: currentParent };
+		if (options.literalStyle) {
+			const raw = text.substr(offset, length);
+			node.raw = raw;
+			const firstCharacter = raw.charAt(0);
+			if (firstCharacter === '"' || firstCharacter === '\'') {
+				node.quote = firstCharacter;
+			} else if (type === 'number') {
+				node.numberFormat = getNumberFormat(raw);
+			}
+		}
+		return node;
+	}
+
+	/**
+	 * Attaches the pending comments to the node which begins. Comments which start on the line where the previous node ends are trailing
+	 * comments of the previous node, unless the new node begins on the line where they end.
+	 */
+	function onNodeBegin(node: NodeImpl, startLine: number) {
+		for (const pendingComment of pendingComments) {
+			if (previousNode && pendingComment.startLine === previousNodeEndLine && pendingComment.endLine < startLine) {
+				addTrailingComment(previousNode, pendingComment.comment);
+			} else {
+				(node.leadingComments || (node.leadingComments = [])).push(pendingComment.comment);
+			}
+		}
+		pendingComments = [];
+		previousNode = undefined;
+	}
+
+	function onNodeEnd(node: NodeImpl, endLine: number) {
+		previousNode = node;
+		previousNodeEndLine = endLine;
+	}
+
+	/**
+	 * Attaches the pending comments at the end of an object, an array or the document to the last node before them.
+	 */
+	function attachPendingComments(container: NodeImpl | undefined) {
+		const node = previousNode || container;
+		if (node) {
+			for (const pendingComment of pendingComments) {
+				addTrailingComment(node, pendingComment.comment);
+			}
+		}
+		pendingComments = [];
+	}
+
+	function addTrailingComment(node: NodeImpl, comment: NodeComment) {
+		(node.trailingComments || (node.trailingComments = [])).push(comment);
+	}
+
+	function onContainerEnd(offset: number, length: number, startLine: number) {
+		if (attachComments) {
+			attachPendingComments(currentParent);
+			onNodeEnd(currentParent, startLine);
+		}
+		currentParent.length = offset + length - currentParent.offset;
+		currentParent = currentParent.parent!;
+		ensurePropertyComplete(offset + length);
+	}
+
 	const visitor: JSON5Visitor = {
-		onObjectBegin: (offset: number) => {
+		onObjectBegin: (offset: number, length: number, startLine: number) => {
 			currentParent = onValue({ type: 'object', offset, length: -1, parent: currentParent, children: [] });
+			if (attachComments) {
+				onNodeBegin(currentParent, startLine);
+			}
 		},
-		onObjectProperty: (name: string, offset: number, length: number) => {
+		onObjectProperty: (name: string, offset: number, length: number, startLine: number) => {
 			currentParent = onValue({ type: 'property', offset, length: -1, parent: currentParent, children: [] });
-			currentParent.children!.push({ type: 'string', value: name, offset, length, parent: currentParent });
+			if (attachComments) {
+				onNodeBegin(currentParent, startLine);
+			}
+			currentParent.children!.push(createLiteralNode('string', name, offset, length));
 		},
-		onObjectEnd: (offset: number, length: number) => {
+		onObjectEnd: (offset: number, length: number, startLine: number) => {
 			ensurePropertyComplete(offset + length); // in case of a missing value for a property: make sure property is complete
-
-			currentParent.length = offset + length - currentParent.offset;
-			currentParent = currentParent.parent!;
-			ensurePropertyComplete(offset + length);
+			onContainerEnd(offset, length, startLine);
 		},
-		onArrayBegin: (offset: number, length: number) => {
+		onArrayBegin: (offset: number, length: number, startLine: number) => {
 			currentParent = onValue({ type: 'array', offset, length: -1, parent: currentParent, children: [] });
+			if (attachComments) {
+				onNodeBegin(currentParent, startLine);
+			}
 		},
-		onArrayEnd: (offset: number, length: number) => {
-			currentParent.length = offset + length - currentParent.offset;
-			currentParent = currentParent.parent!;
-			ensurePropertyComplete(offset + length);
-		},
-		onLiteralValue: (value: any, offset: number, length: number) => {
-			onValue({ type: getNodeType(value), offset, length, parent: currentParent, value });
+		onArrayEnd: onContainerEnd,
+		onLiteralValue: (value: any, offset: number, length: number, startLine: number) => {
+			const node = createLiteralNode(getLiteralNodeType(text.substr(offset, length)), value, offset, length);
+			onValue(node);
+			if (attachComments) {
+				onNodeBegin(node, startLine);
+				onNodeEnd(node, startLine + countLineBreaks(text.substr(offset, length)));
+			}
 			ensurePropertyComplete(offset + length);
 		},
 		onSeparator: (sep: string, offset: number, length: number) => {
@@ -255,19 +531,145 @@ export function parseTree(text: string, errors: ParseError[] = [], options: Pars
 				}
 			}
 		},
-		onError: (error: ParseErrorCode, offset: number, length: number) => {
-			errors.push({ error, offset, length });
+		onComment: (offset: number, length: number, startLine: number) => {
+			if (attachComments) {
+				const raw = text.substr(offset, length);
+				const kind = raw.charAt(1) === '/' ? 'line' : 'block';
+				const commentText = kind === 'line' ? raw.substring(2) : raw.substring(2, /\*\/$/.test(raw) ? raw.length - 2 : raw.length);
+				const comment: NodeComment = { kind, text: commentText, offset, length };
+				pendingComments.push({ comment, startLine, endLine: startLine + countLineBreaks(raw) });
+			}
+		},
+		onError: (error: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number) => {
+			errors.push(createParseError(text, error, offset, length, startLine, startCharacter));
 		}
 	};
 	visit(text, visitor, options);
 
+	// close the nodes which are still open when a limit stopped the visit
+	while (currentParent.parent) {
+		currentParent.length = text.length - currentParent.offset;
+		currentParent = currentParent.parent;
+	}
 	const result = currentParent.children![0];
+	if (attachComments) {
+		attachPendingComments(result);
+	}
 	if (result) {
 		delete result.parent;
 	}
 	return result;
 }
 
+/**
+ * Updates the tree which `parseTree` returned for a document after the given edits turned the document into the given text. The innermost
+ * object or array which contains the edits is parsed again, and the other nodes are reused with their offsets shifted. The whole document
+ * is parsed again if the edits aren't inside of an object or array, if that object or array has errors after the edits, or if the options
+ * limit the tokens, the depth or the length of the document, as these limits apply to the whole document.
+ */
+export function updateTree(text: string, tree: Node, edits: Edit[], errors: ParseError[] = [], options: ParseOptions = {}): Node {
+	if (edits.length === 0) {
+		return tree;
+	}
+	if (!tree || options.maxTokens !== undefined || options.maxDepth !== undefined || options.maxDocumentLength !== undefined) {
+		return parseTree(text, errors, options);
+	}
+	let start = Number.MAX_VALUE; // the range of the edits in the previous document
+	let end = 0;
+	let delta = 0; // the difference between the lengths of the document after and before the edits
+	for (const edit of edits) {
+		start = Math.min(start, edit.offset);
+		end = Math.max(end, edit.offset + edit.length);
+		delta += edit.content.length - edit.length;
+	}
+
+	// the path from the root to the innermost object or array which contains the edits, not including its brackets
+	const path: NodeImpl[] = [];
+	let node: NodeImpl | undefined = tree.offset < start && end < tree.offset + tree.length ? <NodeImpl>tree : undefined;
+	while (node) {
+		path.push(node);
+		node = node.children && node.children.filter(child => child.offset < start && end < child.offset + child.length)[0];
+	}
+	while (path.length > 0 && path[path.length - 1].type !== 'object' && path[path.length - 1].type !== 'array') {
+		path.pop();
+	}
+	const container = path.pop();
+	if (!container) {
+		return parseTree(text, errors, options);
+	}
+	const containerEnd = container.offset + container.length;
+	const containerText = text.substr(container.offset, container.length + delta);
+	const containerErrors: ParseError[] = [];
+	const updated = <NodeImpl>parseTree(containerText, containerErrors, options);
+	if (containerErrors.length > 0 || !updated || updated.type !== container.type || updated.offset !== 0 || updated.length !== containerText.length) {
+		return parseTree(text, errors, options);
+	}
+	shiftNode(updated, container.offset);
+
+	// comments before and after the brackets of the object or array stay attached to it
+	if (container.leadingComments) {
+		updated.leadingComments = container.leadingComments;
+	}
+	if (container.trailingComments) {
+		const trailingComments = container.trailingComments.filter(comment => comment.offset >= containerEnd);
+		shiftComments(trailingComments, containerEnd, delta);
+		if (trailingComments.length > 0) {
+			updated.trailingComments = (updated.trailingComments || []).concat(trailingComments);
+		}
+	}
+
+	for (const ancestor of path) {
+		ancestor.length += delta;
+		if (ancestor.trailingComments) {
+			shiftComments(ancestor.trailingComments, containerEnd, delta);
+		}
+		for (const child of ancestor.children!) {
+			if (child.offset >= containerEnd) {
+				shiftNode(child, delta);
+			}
+		}
+	}
+	if (path.length === 0) {
+		return updated;
+	}
+	const parent = path[path.length - 1];
+	parent.children![parent.children!.indexOf(container)] = updated;
+	updated.parent = parent;
+	return tree;
+}
+
+/**
+ * Adds the delta to the offsets of the node, its children and their comments.
+ */
+function shiftNode(node: NodeImpl, delta: number): void {
+	node.offset += delta;
+	if (node.colonOffset !== undefined) {
+		node.colonOffset += delta;
+	}
+	if (node.leadingComments) {
+		shiftComments(node.leadingComments, 0, delta);
+	}
+	if (node.trailingComments) {
+		shiftComments(node.trailingComments, 0, delta);
+	}
+	if (node.children) {
+		for (const child of node.children) {
+			shiftNode(child, delta);
+		}
+	}
+}
+
+/**
+ * Adds the delta to the offsets of the comments which start at or after the given offset.
+ */
+function shiftComments(comments: NodeComment[], from: number, delta: number): void {
+	for (const comment of comments) {
+		if (comment.offset >= from) {
+			(<{ offset: number }>comment).offset += delta;
+		}
+	}
+}
+
 /**
  * Finds the node at the given path in a JSON5 DOM.
  */
@@ -375,18 +777,143 @@ export function findNodeAtOffset(node: Node, offset: number, includeRightBound =
 }
 
 
+/**
+ * Removes all comments from the given text. If replaceCh is set, every character of a comment other than a line break is replaced with it instead,
+ * so that offsets and line numbers in the result still match the original text.
+ */
+export function stripComments(text: string, replaceCh?: string): string {
+	const _scanner = createScanner(text);
+	const parts: string[] = [];
+	let kind: SyntaxKind;
+	let offset = 0;
+	let pos: number;
+
+	do {
+		pos = _scanner.getPosition();
+		kind = _scanner.scan();
+		switch (kind) {
+			case SyntaxKind.LineCommentTrivia:
+			case SyntaxKind.BlockCommentTrivia:
+			case SyntaxKind.EOF:
+				if (offset !== pos) {
+					parts.push(text.substring(offset, pos));
+				}
+				if (replaceCh !== undefined) {
+					parts.push(text.substring(pos, _scanner.getPosition()).replace(/[^\r\n\u2028\u2029]/g, replaceCh));
+				}
+				offset = _scanner.getPosition();
+				break;
+		}
+	} while (kind !== SyntaxKind.EOF);
+
+	return parts.join('');
+}
+
 /**
  * Parses the given text and invokes the visitor functions for each object, array and literal reached.
  */
 export function visit(text: string, visitor: JSON5Visitor, options: ParseOptions = {}): any {
+	if (options.maxDocumentLength !== undefined && text.length > options.maxDocumentLength) {
+		if (visitor.onError) {
+			visitor.onError(ParseErrorCode.LimitExceeded, 0, text.length, 0, 0);
+		}
+		return false;
+	}
+	const scanner = createScanner(text, false);
+	const parser = createTokenParser({
+		...scanner,
+		getTokenText: () => text.substr(scanner.getTokenOffset(), scanner.getTokenLength())
+	}, visitor, options);
+	do {
+		scanner.scan();
+	} while (parser.next());
+	return parser.getResult();
+}
 
-	const _scanner = createScanner(text, false);
+/**
+ * The current token of a scanner, together with its text.
+ */
+export interface TokenSource extends Pick<JSON5Scanner, 'getToken' | 'getTokenValue' | 'getTokenOffset' | 'getTokenLength' | 'getTokenStartLine' | 'getTokenStartCharacter' | 'getTokenError'> {
+	getTokenText(): string;
+}
+
+/**
+ * A parser which is pushed the tokens of a document one at a time, trivia included, and invokes the visitor functions as it goes.
+ */
+export interface TokenParser {
+	/**
+	 * Processes the current token of the token source. Returns false when the parser needs no more tokens: at the end of the document, or as
+	 * soon as the document can't be parsed any further.
+	 */
+	next(): boolean;
+	/**
+	 * Returns the result of `visit`: false if the document isn't a value or a limit was exceeded, and true otherwise.
+	 */
+	getResult(): boolean;
+	/**
+	 * Returns true if the value of the document has been parsed, and only trivia, comments and the end of the document are expected.
+	 */
+	isComplete(): boolean;
+	/**
+	 * Returns true if a value can follow: at the start of the document, after a colon, or in an array where no comma is missing.
+	 */
+	expectsValue(): boolean;
+}
+
+const enum ParserState {
+	DocumentValue,
+	DocumentEnd,
+	ObjectMember,
+	ObjectMemberAfterComma,
+	ObjectPropertyName,
+	ObjectPropertyNameExpected,
+	ObjectColon,
+	ObjectPropertyValue,
+	ObjectEnd,
+	ArrayElement,
+	ArrayElementAfterComma,
+	ArrayValue,
+	ArrayEnd,
+	Skip
+}
+
+/**
+ * What the parser expects next in the document, in an object or array which is being parsed, or while it skips tokens after an error. The
+ * frames form a stack in place of the recursion of a recursive descent parser, so that parsing can stop at any token and resume with the next.
+ */
+interface ParserFrame {
+	state: ParserState;
+	needsComma: boolean;
+	commaOffset: number;
+	commaStartLine: number;
+	commaStartCharacter: number;
+	skipUntilAfter: SyntaxKind[];
+	skipUntil: SyntaxKind[];
+}
+
+export function createTokenParser(tokens: TokenSource, visitor: JSON5Visitor, options: ParseOptions = {}): TokenParser {
+
+	const dialect = options.dialect || 'json5';
+	const allowComments = dialect !== 'json' && !options.disallowComments;
+	const allowTrailingComma = dialect !== 'json' && !options.disallowTrailingComma;
+	const allowJSON5Syntax = dialect === 'json5';
+	const allowUnquotedKeys = allowJSON5Syntax && !options.disallowUnquotedKeys;
+	const reportDuplicateKeys = options.duplicateKeys === 'error';
+	const allowPrototypeKeys = !options.disallowPrototypeKeys;
+	const bigNumbers = options.bigNumbers || 'error';
+	const propertyNames: { [name: string]: boolean }[] = []; // one entry for each object being parsed
+	const limitExceededException = new Object();
+	const stack: ParserFrame[] = [];
+	let depth = 0;
+	let tokenCount = 0;
+	let done = false;
+	let result = false;
 
 	function toNoArgVisit(visitFunction?: (offset: number, length: number, startLine: number, startCharacter: number) => void): () => void {
-		return visitFunction ? () => visitFunction(_scanner.getTokenOffset(), _scanner.getTokenLength(), _scanner.getTokenStartLine(), _scanner.getTokenStartCharacter()) : () => true;
+		return visitFunction ? () => visitFunction(tokens.getTokenOffset(), tokens.getTokenLength(), tokens.getTokenStartLine(), tokens.getTokenStartCharacter()) : () => true;
 	}
 	function toOneArgVisit<T>(visitFunction?: (arg: T, offset: number, length: number, startLine: number, startCharacter: number) => void): (arg: T) => void {
-		return visitFunction ? (arg: T) => visitFunction(arg, _scanner.getTokenOffset(), _scanner.getTokenLength(), _scanner.getTokenStartLine(), _scanner.getTokenStartCharacter()) : () => true;
+		return visitFunction ? (arg: T) => visitFunction(arg, tokens.getTokenOffset(), tokens.getTokenLength(), tokens.getTokenStartLine(), tokens.getTokenStartCharacter()) : () => true;
 	}
 
 	const onObjectBegin = toNoArgVisit(visitor.onObjectBegin),
@@ -399,97 +926,271 @@ export function visit(text: string, visitor: JSON5Visitor, options: ParseOptions
 		onComment = toNoArgVisit(visitor.onComment),
 		onError = toOneArgVisit(visitor.onError);
 
-	function scanNext(): SyntaxKind {
-		while (true) {
-			const token = _scanner.scan();
-			switch (_scanner.getTokenError()) {
-				case ScanError.UnexpectedEndOfComment:
-					handleError(ParseErrorCode.UnexpectedEndOfComment);
-					break;
-				case ScanError.UnexpectedEndOfString:
-					handleError(ParseErrorCode.UnexpectedEndOfString);
-					break;
-			}
-			switch (token) {
-				case SyntaxKind.LineCommentTrivia:
-				case SyntaxKind.BlockCommentTrivia:
+	/**
+	 * Reports the scan errors and comments of the current token. Returns false for the tokens which the grammar skips: trivia, comments and
+	 * unknown tokens.
+	 */
+	function readToken(): boolean {
+		const token = tokens.getToken();
+		if (token !== SyntaxKind.EOF && options.maxTokens !== undefined && ++tokenCount > options.maxTokens) {
+			limitExceeded();
+		}
+		switch (tokens.getTokenError()) {
+			case ScanError.UnexpectedEndOfComment:
+				handleError(ParseErrorCode.UnexpectedEndOfComment);
+				break;
+			case ScanError.UnexpectedEndOfString:
+				handleError(ParseErrorCode.UnexpectedEndOfString);
+				break;
+		}
+		switch (token) {
+			case SyntaxKind.LineCommentTrivia:
+			case SyntaxKind.BlockCommentTrivia:
+				if (allowComments) {
 					onComment();
-					break;
-				case SyntaxKind.Unknown:
-					handleError(ParseErrorCode.InvalidSymbol);
-					break;
-				case SyntaxKind.Trivia:
-				case SyntaxKind.LineBreakTrivia:
-					break;
-				default:
-					return token;
-			}
+				} else {
+					handleError(ParseErrorCode.InvalidCommentToken);
+				}
+				return false;
+			case SyntaxKind.Unknown:
+				handleError(ParseErrorCode.InvalidSymbol);
+				return false;
+			case SyntaxKind.LineBreakTrivia:
+				if (!allowJSON5Syntax && /^[\u2028\u2029]$/.test(tokens.getTokenText())) {
+					handleError(ParseErrorCode.UnexpectedLineSeparator);
+				}
+				return false;
+			case SyntaxKind.Trivia:
+				if (!allowJSON5Syntax) {
+					checkWhitespace();
+				}
+				return false;
+			default:
+				return true;
 		}
 	}
 
+	function pushFrame(state: ParserState, skipUntilAfter: SyntaxKind[] = [], skipUntil: SyntaxKind[] = []): void {
+		stack.push({ state, needsComma: false, commaOffset: 0, commaStartLine: 0, commaStartCharacter: 0, skipUntilAfter, skipUntil });
+	}
+
+	/**
+	 * Reports an error at the current token. If tokens to skip until are given, the following tokens are skipped until one of them: the
+	 * tokens in `skipUntilAfter` are skipped as well, the tokens in `skipUntil` are not.
+	 */
 	function handleError(error: ParseErrorCode, skipUntilAfter: SyntaxKind[] = [], skipUntil: SyntaxKind[] = []): void {
 		onError(error);
 		if (skipUntilAfter.length + skipUntil.length > 0) {
-			let token = _scanner.getToken();
-			while (token !== SyntaxKind.EOF) {
-				if (skipUntilAfter.indexOf(token) !== -1) {
-					scanNext();
-					break;
-				} else if (skipUntil.indexOf(token) !== -1) {
-					break;
-				}
-				token = scanNext();
+			pushFrame(ParserState.Skip, skipUntilAfter, skipUntil);
+		}
+	}
+
+	/**
+	 * Reports a `LimitExceeded` error at the current token and stops parsing.
+	 */
+	function limitExceeded(): never {
+		handleError(ParseErrorCode.LimitExceeded);
+		throw limitExceededException;
+	}
+
+	function enterContainer(): void {
+		if (options.maxDepth !== undefined && ++depth > options.maxDepth) {
+			limitExceeded();
+		}
+	}
+
+	/**
+	 * Reports an error at the given offset inside the current token.
+	 */
+	function handleErrorInToken(error: ParseErrorCode, offsetInToken: number, length: number): void {
+		const textBefore = tokens.getTokenText().substring(0, offsetInToken);
+		const lineBreaks = countLineBreaks(textBefore);
+		const startCharacter = lineBreaks === 0
+			? tokens.getTokenStartCharacter() + offsetInToken
+			: offsetInToken - 1 - Math.max(textBefore.lastIndexOf('\n'), textBefore.lastIndexOf('\r'), textBefore.lastIndexOf('\u2028'), textBefore.lastIndexOf('\u2029'));
+		handleErrorAt(error, tokens.getTokenOffset() + offsetInToken, length, tokens.getTokenStartLine() + lineBreaks, startCharacter);
+	}
+
+	/**
+	 * Reports the errors in the current literal at their offsets.
+	 */
+	function reportLiteralErrors(check: (lexeme: string, onError: LiteralErrorCallback) => void): void {
+		check(tokens.getTokenText(), (error, offset, length) => handleErrorInToken(getLiteralErrorCode(error), offset, length));
+	}
+
+	function handleErrorAt(error: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number): void {
+		if (visitor.onError) {
+			visitor.onError(error, offset, length, startLine, startCharacter);
+		}
+	}
+
+	/**
+	 * Reports the whitespace characters in the current trivia token which JSON doesn't have, such as non-breaking spaces and vertical tabs. A
+	 * byte order mark is allowed at the start of the document.
+	 */
+	function checkWhitespace(): void {
+		const trivia = tokens.getTokenText();
+		for (let i = 0; i < trivia.length; i++) {
+			const character = trivia.charAt(i);
+			if (character !== ' ' && character !== '\t' && !(character === '\uFEFF' && tokens.getTokenOffset() + i === 0)) {
+				handleErrorInToken(ParseErrorCode.InvalidWhitespace, i, 1);
 			}
 		}
 	}
 
-	function parseString(isValue: boolean): boolean {
-		let value = '';
-		try {
-			const parsed = JSON5.parse(_scanner.getTokenValue());
-			if (typeof parsed !== 'string') {
-				handleError(ParseErrorCode.InvalidString);
-				value = '';
+	/**
+	 * Reports JSON5-only syntax in the current string token: single quotes, line continuations, escape sequences which JSON doesn't have and
+	 * unescaped control characters, such as tabs.
+	 */
+	function checkStringSyntax(): void {
+		const lexeme = tokens.getTokenText();
+		const tokenOffset = tokens.getTokenOffset();
+		if (lexeme.charAt(0) === '\'') {
+			handleError(ParseErrorCode.SingleQuotedString);
+		}
+		let line = tokens.getTokenStartLine();
+		let lineStartOffset = tokenOffset - tokens.getTokenStartCharacter();
+		for (let i = 1; i < lexeme.length - 1; i++) {
+			const offset = tokenOffset + i;
+			if (lexeme.charAt(i) < ' ') {
+				handleErrorAt(ParseErrorCode.UnescapedControlCharacter, offset, 1, line, offset - lineStartOffset);
+				continue;
+			}
+			if (lexeme.charAt(i) !== '\\') {
+				continue;
+			}
+			const escapeCharacter = lexeme.charAt(i + 1);
+			if ('\r\n\u2028\u2029'.indexOf(escapeCharacter) !== -1) {
+				const length = lexeme.substr(i + 1, 2) === '\r\n' ? 3 : 2;
+				handleErrorAt(ParseErrorCode.LineContinuation, offset, length, line, offset - lineStartOffset);
+				line++;
+				lineStartOffset = offset + length;
+				i += length - 1;
 			} else {
-				value = parsed;
+				// escape sequences which JSON5 doesn't have either are reported by reportLiteralErrors
+				const isJSON5Escape = !/[1-9]/.test(escapeCharacter) &&
+					!(escapeCharacter === '0' && /[0-9]/.test(lexeme.charAt(i + 2))) &&
+					!(escapeCharacter === 'x' && !/^[0-9a-fA-F]{2}$/.test(lexeme.substr(i + 2, 2)));
+				if ('"\\/bfnrtu'.indexOf(escapeCharacter) === -1 && isJSON5Escape) {
+					handleErrorAt(ParseErrorCode.InvalidEscapeSequence, offset, 2, line, offset - lineStartOffset);
+				}
+				i++;
 			}
-		} catch (e) {
-			handleError(ParseErrorCode.InvalidString);
 		}
+	}
+
+	/**
+	 * Reports JSON5-only syntax in the current number token: a leading plus sign, hexadecimal digits, leading or trailing decimal points and
+	 * non-finite numbers.
+	 */
+	function checkNumberSyntax(): void {
+		let lexeme = tokens.getTokenText();
+		let offset = tokens.getTokenOffset();
+		const startCharacter = tokens.getTokenStartCharacter();
+		if (lexeme.charAt(0) === '+') {
+			handleErrorAt(ParseErrorCode.LeadingPlusSign, offset, 1, tokens.getTokenStartLine(), startCharacter);
+		}
+		if (tokens.getToken() !== SyntaxKind.NumericLiteral || /Infinity|NaN/.test(lexeme)) {
+			handleError(ParseErrorCode.NonFiniteNumber);
+			return;
+		}
+		if (lexeme.charAt(0) === '+' || lexeme.charAt(0) === '-') {
+			lexeme = lexeme.substring(1);
+			offset++;
+		}
+		if (/^0[xX]/.test(lexeme)) {
+			handleError(ParseErrorCode.HexadecimalNumber);
+			return;
+		}
+		const decimalPoint = lexeme.indexOf('.');
+		if (decimalPoint === 0 || (decimalPoint !== -1 && !/[0-9]/.test(lexeme.charAt(decimalPoint + 1)))) {
+			const decimalPointOffset = offset + decimalPoint;
+			handleErrorAt(ParseErrorCode.LeadingOrTrailingDecimalPoint, decimalPointOffset, 1, tokens.getTokenStartLine(), startCharacter + decimalPointOffset - tokens.getTokenOffset());
+		}
+	}
+
+	function parseString(isValue: boolean): void {
+		if (options.maxStringLength !== undefined && tokens.getTokenLength() > options.maxStringLength) {
+			limitExceeded();
+		}
+		if (!allowJSON5Syntax) {
+			checkStringSyntax();
+		}
+		if (tokens.getTokenError() !== ScanError.None) {
+			reportLiteralErrors(decodeString);
+		}
+		const value = tokens.getTokenValue();
 		if (isValue) {
 			onLiteralValue(value);
 		} else {
-			onObjectProperty(value);
+			onPropertyName(value);
 		}
-		scanNext();
-		return true;
 	}
 
-	function parseIdentifier(): boolean {
-		const value = _scanner.getTokenValue();
-		onObjectProperty(value);
-		scanNext();
-		return true;
+	function onPropertyName(name: string): void {
+		if (!allowPrototypeKeys && (name === '__proto__' || name === 'constructor')) {
+			handleError(ParseErrorCode.PrototypeKey);
+		}
+		if (reportDuplicateKeys) {
+			const names = propertyNames[propertyNames.length - 1];
+			if (names[name]) {
+				handleError(ParseErrorCode.DuplicateKey);
+			}
+			names[name] = true;
+		}
+		onObjectProperty(name);
+	}
+
+	function parseIdentifier(): void {
+		if (!allowUnquotedKeys) {
+			handleError(ParseErrorCode.UnquotedPropertyName);
+		}
+		if (tokens.getTokenError() !== ScanError.None) {
+			reportLiteralErrors(decodeIdentifier);
+		}
+		const value = tokens.getTokenValue();
+		onPropertyName(value);
+	}
+
+	/**
+	 * Returns the value for an integer which a number can't represent exactly, according to the `bigNumbers` option.
+	 */
+	function toBigNumber(lexeme: string, value: number): any {
+		switch (bigNumbers) {
+			case 'error':
+				handleError(ParseErrorCode.PrecisionLoss);
+				return value;
+			case 'number':
+				return value;
+			case 'bigint':
+				return toBigInt(lexeme);
+			case 'string':
+				return lexeme;
+			default:
+				return bigNumbers(lexeme);
+		}
 	}
 
 	function parseLiteral(): boolean {
-		switch (_scanner.getToken()) {
+		switch (tokens.getToken()) {
 			case SyntaxKind.NumericLiteral:
 			case SyntaxKind.InfinityKeyword:
 			case SyntaxKind.NaNKeyword:
-				let value = 0;
-				try {
-					let parsed = JSON5.parse(_scanner.getTokenValue());
-					if (typeof parsed !== 'number') {
+				const lexeme = tokens.getTokenText();
+				let value = decodeNumber(lexeme);
+				if (tokens.getTokenError() !== ScanError.None) {
+					reportLiteralErrors(checkNumber);
+					value = 0;
+				} else {
+					if (!allowJSON5Syntax) {
+						checkNumberSyntax();
+					}
+					if (isNaN(value) && !/NaN$/.test(lexeme)) {
 						handleError(ParseErrorCode.InvalidNumberFormat);
 						value = 0;
-					} else {
-						value = parsed;
 					}
-				} catch (e) {
-					handleError(ParseErrorCode.InvalidNumberFormat);
 				}
-				onLiteralValue(value);
+				onLiteralValue(isInexactInteger(lexeme, value) ? toBigNumber(lexeme, value) : value);
 				break;
 			case SyntaxKind.NullKeyword:
 				onLiteralValue(null);
@@ -503,145 +1204,329 @@ export function visit(text: string, visitor: JSON5Visitor, options: ParseOptions
 			default:
 				return false;
 		}
-		scanNext();
 		return true;
 	}
 
-	function parseProperty(): boolean {
-		const token = _scanner.getToken();
-		if (token === SyntaxKind.StringLiteral) {
-			parseString(false);
-		} else if (
-			token === SyntaxKind.Identifier ||
-			token === SyntaxKind.TrueKeyword ||
-			token === SyntaxKind.FalseKeyword ||
-			token === SyntaxKind.NullKeyword ||
-			token === SyntaxKind.InfinityKeyword ||
-			token === SyntaxKind.NaNKeyword
-		) {
-			parseIdentifier();
-		} else {
-			handleError(
-				ParseErrorCode.PropertyNameExpected,
-				[],
-				[SyntaxKind.CloseBraceToken, SyntaxKind.CommaToken]
-			);
-			return false;
+	/**
+	 * Starts the value at the current token: a literal is parsed at once, and an object or array gets a frame on top of the stack. Returns
+	 * false if the token doesn't start a value.
+	 */
+	function parseValue(): boolean {
+		switch (tokens.getToken()) {
+			case SyntaxKind.OpenBracketToken:
+				enterContainer();
+				onArrayBegin();
+				pushFrame(ParserState.ArrayElement);
+				return true;
+			case SyntaxKind.OpenBraceToken:
+				enterContainer();
+				onObjectBegin();
+				if (reportDuplicateKeys) {
+					propertyNames.push(Object.create(null));
+				}
+				pushFrame(ParserState.ObjectMember);
+				return true;
+			case SyntaxKind.StringLiteral:
+				parseString(true);
+				return true;
+			default:
+				return parseLiteral();
 		}
+	}
 
-		if (_scanner.getToken() === SyntaxKind.ColonToken) {
-			onSeparator(':');
-			scanNext(); // consume colon
-
-			if (!parseValue()) {
-				handleError(ParseErrorCode.ValueExpected, [], [SyntaxKind.CloseBraceToken, SyntaxKind.CommaToken]);
-			}
-		} else {
-			handleError(ParseErrorCode.ColonExpected, [], [SyntaxKind.CloseBraceToken, SyntaxKind.CommaToken]);
-		}
+	function finish(parseResult: boolean): boolean {
+		result = parseResult;
+		done = true;
 		return true;
 	}
 
-	function parseObject(): boolean {
-		onObjectBegin();
-		scanNext(); // consume open brace
+	/**
+	 * Processes the current token in the given frame. Returns true if the token has been consumed, and false if the token is left to the frame
+	 * which is on top of the stack now.
+	 */
+	function step(frame: ParserFrame): boolean {
+		const token = tokens.getToken();
+		switch (frame.state) {
+			case ParserState.DocumentValue:
+				if (token === SyntaxKind.EOF) {
+					if (options.allowEmptyContent) {
+						return finish(true);
+					}
+					handleError(ParseErrorCode.ValueExpected);
+					return finish(false);
+				}
+				frame.state = ParserState.DocumentEnd;
+				if (!parseValue()) {
+					handleError(ParseErrorCode.ValueExpected);
+					return finish(false);
+				}
+				return true;
+			case ParserState.DocumentEnd:
+				if (token !== SyntaxKind.EOF) {
+					handleError(ParseErrorCode.EndOfFileExpected);
+				}
+				return finish(true);
 
-		let needsComma = false;
-		while (_scanner.getToken() !== SyntaxKind.CloseBraceToken && _scanner.getToken() !== SyntaxKind.EOF) {
-			if (_scanner.getToken() === SyntaxKind.CommaToken) {
-				if (!needsComma) {
-					handleError(ParseErrorCode.ValueExpected, [], []);
+			case ParserState.ObjectMember:
+				if (token === SyntaxKind.CloseBraceToken || token === SyntaxKind.EOF) {
+					frame.state = ParserState.ObjectEnd;
+					return false;
 				}
-				onSeparator(',');
-				scanNext(); // consume comma
-				if (_scanner.getToken() === SyntaxKind.CloseBraceToken) {
-					break;
+				if (token === SyntaxKind.CommaToken) {
+					if (!frame.needsComma) {
+						handleError(ParseErrorCode.ValueExpected);
+					}
+					recordComma(frame);
+					frame.state = ParserState.ObjectMemberAfterComma;
+					return true;
 				}
-			} else if (needsComma) {
-				handleError(ParseErrorCode.CommaExpected, [], []);
-			}
-			if (!parseProperty()) {
+				if (frame.needsComma) {
+					handleError(ParseErrorCode.CommaExpected);
+				}
+				frame.state = ParserState.ObjectPropertyName;
+				return false;
+			case ParserState.ObjectMemberAfterComma:
+				if (token === SyntaxKind.CloseBraceToken) {
+					reportTrailingComma(frame);
+					frame.state = ParserState.ObjectEnd;
+				} else {
+					frame.state = ParserState.ObjectPropertyName;
+				}
+				return false;
+			case ParserState.ObjectPropertyName:
+				if (token === SyntaxKind.StringLiteral) {
+					parseString(false);
+				} else if (
+					token === SyntaxKind.Identifier ||
+					token === SyntaxKind.TrueKeyword ||
+					token === SyntaxKind.FalseKeyword ||
+					token === SyntaxKind.NullKeyword ||
+					token === SyntaxKind.InfinityKeyword ||
+					token === SyntaxKind.NaNKeyword
+				) {
+					parseIdentifier();
+				} else {
+					frame.state = ParserState.ObjectPropertyNameExpected;
+					handleError(ParseErrorCode.PropertyNameExpected, [], [SyntaxKind.CloseBraceToken, SyntaxKind.CommaToken]);
+					return false;
+				}
+				frame.state = ParserState.ObjectColon;
+				return true;
+			case ParserState.ObjectPropertyNameExpected:
+				frame.needsComma = true;
+				frame.state = ParserState.ObjectMember;
 				handleError(ParseErrorCode.ValueExpected, [], [SyntaxKind.CloseBraceToken, SyntaxKind.CommaToken]);
-			}
-			needsComma = true;
+				return false;
+			case ParserState.ObjectColon:
+				frame.needsComma = true;
+				if (token === SyntaxKind.ColonToken) {
+					onSeparator(':');
+					frame.state = ParserState.ObjectPropertyValue;
+					return true;
+				}
+				frame.state = ParserState.ObjectMember;
+				handleError(ParseErrorCode.ColonExpected, [], [SyntaxKind.CloseBraceToken, SyntaxKind.CommaToken]);
+				return false;
+			case ParserState.ObjectPropertyValue:
+				frame.state = ParserState.ObjectMember;
+				if (!parseValue()) {
+					handleError(ParseErrorCode.ValueExpected, [], [SyntaxKind.CloseBraceToken, SyntaxKind.CommaToken]);
+					return false;
+				}
+				return true;
+			case ParserState.ObjectEnd:
+				stack.pop();
+				if (reportDuplicateKeys) {
+					propertyNames.pop();
+				}
+				depth--;
+				onObjectEnd();
+				if (token !== SyntaxKind.CloseBraceToken) {
+					handleError(ParseErrorCode.CloseBraceExpected, [SyntaxKind.CloseBraceToken], []);
+					return false;
+				}
+				return true;
+
+			case ParserState.ArrayElement:
+				if (token === SyntaxKind.CloseBracketToken || token === SyntaxKind.EOF) {
+					frame.state = ParserState.ArrayEnd;
+					return false;
+				}
+				if (token === SyntaxKind.CommaToken) {
+					if (!frame.needsComma) {
+						handleError(ParseErrorCode.ValueExpected);
+					}
+					recordComma(frame);
+					frame.state = ParserState.ArrayElementAfterComma;
+					return true;
+				}
+				if (frame.needsComma) {
+					handleError(ParseErrorCode.CommaExpected);
+				}
+				frame.state = ParserState.ArrayValue;
+				return false;
+			case ParserState.ArrayElementAfterComma:
+				if (token === SyntaxKind.CloseBracketToken) {
+					reportTrailingComma(frame);
+					frame.state = ParserState.ArrayEnd;
+				} else {
+					frame.state = ParserState.ArrayValue;
+				}
+				return false;
+			case ParserState.ArrayValue:
+				frame.needsComma = true;
+				frame.state = ParserState.ArrayElement;
+				if (!parseValue()) {
+					handleError(ParseErrorCode.ValueExpected, [], [SyntaxKind.CloseBracketToken, SyntaxKind.CommaToken]);
+					return false;
+				}
+				return true;
+			case ParserState.ArrayEnd:
+				stack.pop();
+				depth--;
+				onArrayEnd();
+				if (token !== SyntaxKind.CloseBracketToken) {
+					handleError(ParseErrorCode.CloseBracketExpected, [SyntaxKind.CloseBracketToken], []);
+					return false;
+				}
+				return true;
+
+			case ParserState.Skip:
+				if (token === SyntaxKind.EOF || frame.skipUntil.indexOf(token) !== -1) {
+					stack.pop();
+					return false;
+				}
+				if (frame.skipUntilAfter.indexOf(token) !== -1) {
+					stack.pop();
+				}
+				return true;
 		}
-		onObjectEnd();
-		if (_scanner.getToken() !== SyntaxKind.CloseBraceToken) {
-			handleError(ParseErrorCode.CloseBraceExpected, [SyntaxKind.CloseBraceToken], []);
-		} else {
-			scanNext(); // consume close brace
+	}
+
+	function recordComma(frame: ParserFrame): void {
+		frame.commaOffset = tokens.getTokenOffset();
+		frame.commaStartLine = tokens.getTokenStartLine();
+		frame.commaStartCharacter = tokens.getTokenStartCharacter();
+		onSeparator(',');
+	}
+
+	function reportTrailingComma(frame: ParserFrame): void {
+		if (!allowTrailingComma) {
+			handleErrorAt(ParseErrorCode.TrailingComma, frame.commaOffset, 1, frame.commaStartLine, frame.commaStartCharacter);
 		}
-		return true;
 	}
 
-	function parseArray(): boolean {
-		onArrayBegin();
-		scanNext(); // consume open bracket
+	pushFrame(ParserState.DocumentValue);
 
-		let needsComma = false;
-		while (_scanner.getToken() !== SyntaxKind.CloseBracketToken && _scanner.getToken() !== SyntaxKind.EOF) {
-			if (_scanner.getToken() === SyntaxKind.CommaToken) {
-				if (!needsComma) {
-					handleError(ParseErrorCode.ValueExpected, [], []);
+	return {
+		next: () => {
+			if (done) {
+				return false;
+			}
+			try {
+				if (readToken()) {
+					while (!step(stack[stack.length - 1])) {
+						// the token is processed by the frame on top of the stack
+					}
 				}
-				onSeparator(',');
-				scanNext(); // consume comma
-				if (_scanner.getToken() === SyntaxKind.CloseBracketToken) {
-					break;
+			} catch (e) {
+				if (e !== limitExceededException) {
+					throw e;
 				}
-			} else if (needsComma) {
-				handleError(ParseErrorCode.CommaExpected, [], []);
+				finish(false);
 			}
-			if (!parseValue()) {
-				handleError(ParseErrorCode.ValueExpected, [], [SyntaxKind.CloseBracketToken, SyntaxKind.CommaToken]);
+			return !done;
+		},
+		getResult: () => result,
+		isComplete: () => !done && stack.length === 1 && stack[0].state === ParserState.DocumentEnd,
+		expectsValue: () => {
+			const frame = stack[stack.length - 1];
+			switch (frame.state) {
+				case ParserState.DocumentValue:
+				case ParserState.ObjectPropertyValue:
+				case ParserState.ArrayElementAfterComma:
+				case ParserState.ArrayValue:
+					return true;
+				case ParserState.ArrayElement:
+					return !frame.needsComma;
+				default:
+					return false;
 			}
-			needsComma = true;
 		}
-		onArrayEnd();
-		if (_scanner.getToken() !== SyntaxKind.CloseBracketToken) {
-			handleError(ParseErrorCode.CloseBracketExpected, [SyntaxKind.CloseBracketToken], []);
-		} else {
-			scanNext(); // consume close bracket
-		}
-		return true;
-	}
+	};
+}
 
-	function parseValue(): boolean {
-		switch (_scanner.getToken()) {
-			case SyntaxKind.OpenBracketToken:
-				return parseArray();
-			case SyntaxKind.OpenBraceToken:
-				return parseObject();
-			case SyntaxKind.StringLiteral:
-				return parseString(true);
-			default:
-				return parseLiteral();
-		}
-	}
+function countLineBreaks(text: string): number {
+	const lineBreaks = text.match(/\r\n|[\r\n\u2028\u2029]/g);
+	return lineBreaks ? lineBreaks.length : 0;
+}
 
-	scanNext();
-	if (_scanner.getToken() === SyntaxKind.EOF) {
-		if (options.allowEmptyContent) {
-			return true;
-		}
-		handleError(ParseErrorCode.ValueExpected, [], []);
-		return false;
+/**
+ * Returns the line and character after the given text, which starts at the given line and character.
+ */
+function getEndPosition(startLine: number, startCharacter: number, text: string): { line: number, character: number } {
+	const lineBreak = /\r\n|[\r\n\u2028\u2029]/g;
+	let line = startLine;
+	let lastLineStart = -1;
+	while (lineBreak.exec(text) !== null) {
+		line++;
+		lastLineStart = lineBreak.lastIndex;
 	}
-	if (!parseValue()) {
-		handleError(ParseErrorCode.ValueExpected, [], []);
-		return false;
+	return { line, character: lastLineStart === -1 ? startCharacter + text.length : text.length - lastLineStart };
+}
+
+function getNumberFormat(raw: string): NumberFormat {
+	const firstCharacter = raw.charAt(0);
+	const sign = firstCharacter === '+' || firstCharacter === '-' ? firstCharacter : '';
+	const unsigned = raw.substring(sign.length);
+	const decimalPoint = unsigned.indexOf('.');
+	return {
+		sign,
+		hexadecimal: /^0[xX]/.test(unsigned),
+		leadingDecimalPoint: decimalPoint === 0,
+		trailingDecimalPoint: decimalPoint !== -1 && !/[0-9]/.test(unsigned.charAt(decimalPoint + 1))
+	};
+}
+
+/**
+ * Returns the parse error for an error which the scanner finds in a literal.
+ */
+export function getLiteralErrorCode(error: ScanError): ParseErrorCode {
+	switch (error) {
+		case ScanError.InvalidHexEscape:
+			return ParseErrorCode.InvalidHexEscape;
+		case ScanError.InvalidUnicodeEscape:
+			return ParseErrorCode.InvalidUnicodeEscape;
+		case ScanError.MissingHexDigits:
+			return ParseErrorCode.MissingHexDigits;
+		case ScanError.MultipleDecimalPoints:
+			return ParseErrorCode.MultipleDecimalPoints;
+		default:
+			return ParseErrorCode.InvalidEscapeSequence;
 	}
-	if (_scanner.getToken() !== SyntaxKind.EOF) {
-		handleError(ParseErrorCode.EndOfFileExpected, [], []);
+}
+
+/**
+ * Returns the type of the node of a literal from its text rather than its value, which `bigNumbers` can turn into a string or an object.
+ */
+function getLiteralNodeType(lexeme: string): NodeType {
+	switch (lexeme) {
+		case 'true':
+		case 'false':
+			return 'boolean';
+		case 'null':
+			return 'null';
 	}
-	return true;
+	const firstCharacter = lexeme.charAt(0);
+	return firstCharacter === '"' || firstCharacter === '\'' ? 'string' : 'number';
 }
 
-export function getNodeType(value: any): NodeType {
+function getNodeType(value: any): NodeType {
 	switch (typeof value) {
 		case 'boolean': return 'boolean';
 		case 'number': return 'number';
 		case 'string': return 'string';
+		case 'bigint': return 'number';
 		case 'object': {
 			if (!value) {
 				return 'null';
@@ -4,8 +4,10 @@
  *--------------------------------------------------------------------------------------------*/
 'use strict';
 
-import { ScanError, SyntaxKind, JSON5Scanner } from '../main';
+import { ScanError, SyntaxKind, JSON5Scanner, JSON5LineScanner, LineScanState } from '../main';
 import { ScanResult, isFailure, json5InputElement } from './grammar';
+import { decodeIdentifier, decodeString } from './literals';
+import { checkNumber } from './numbers';
 
 /**
  * Creates a JSON5 scanner on the given text.
@@ -64,7 +66,6 @@ export function createScanner(text: string, ignoreTrivia: boolean = false): JSON
 
 	function computeNextScanState(text: string, previousState: ScanState, scanResult: ScanResult): ScanState {
 		const pos = previousState.pos + scanResult.length;
-		const value = text.substring(previousState.pos, pos);
 
 		const baseState: ScanState = {
 			...previousState,
@@ -76,17 +77,50 @@ export function createScanner(text: string, ignoreTrivia: boolean = false): JSON
 					? previousState.pos + scanResult.lengthToEndOfLastLineBreak
 					: previousState.tokenLineStartOffset
 		};
-		return isFailure(scanResult)
+		const nextState: ScanState = isFailure(scanResult)
 			? {
-					...baseState,
-					pos: baseState.pos + 1,
-					value: baseState.value + text[pos],
+					...skipFailedCharacter(text, baseState),
 					...errorAttributesMap[scanResult.syntaxKind]
 			  }
-			: {
-					...baseState,
-					value
-			  };
+			: baseState;
+		return decodeValue(text.substring(previousState.pos, nextState.pos), nextState);
+	}
+
+	/**
+	 * Adds the character at which a token failed to the token, with the line break it can be. A token which failed at the end of the text
+	 * ends there.
+	 */
+	function skipFailedCharacter(text: string, state: ScanState): ScanState {
+		const lineBreak = /^(\r\n|[\r\n\u2028\u2029])/.exec(text.substr(state.pos, 2));
+		if (lineBreak) {
+			const pos = state.pos + lineBreak[0].length;
+			return { ...state, pos, lineNumber: state.lineNumber + 1, tokenLineStartOffset: pos };
+		}
+		return { ...state, pos: Math.min(state.pos + 1, len) };
+	}
+
+	/**
+	 * Sets the value of the token: the decoded value of strings and identifiers, and the lexeme for all other tokens. Errors in the literal
+	 * set the scan error, unless the token already has one.
+	 */
+	function decodeValue(lexeme: string, state: ScanState): ScanState {
+		let scanError = state.scanError;
+		const onError = (error: ScanError) => {
+			if (scanError === ScanError.None) {
+				scanError = error;
+			}
+		};
+		switch (state.token) {
+			case SyntaxKind.StringLiteral:
+				return { ...state, value: decodeString(lexeme, onError), scanError };
+			case SyntaxKind.Identifier:
+				return { ...state, value: decodeIdentifier(lexeme, onError), scanError };
+			case SyntaxKind.NumericLiteral:
+				checkNumber(lexeme, onError);
+				return { ...state, value: lexeme, scanError };
+			default:
+				return { ...state, value: lexeme };
+		}
 	}
 
 	function setPosition(newPosition: number): void {
@@ -114,7 +148,7 @@ export function createScanner(text: string, ignoreTrivia: boolean = false): JSON
 				token: SyntaxKind.EOF
 			};
 		} else {
-			const scanResult = json5InputElement(text.substring(state.pos));
+			const scanResult = json5InputElement(text, state.pos);
 			state = computeNextScanState(text, baseState, scanResult);
 		}
 		return state.token;
@@ -141,3 +175,72 @@ export function createScanner(text: string, ignoreTrivia: boolean = false): JSON
 		getTokenError: () => state.scanError
 	};
 }
+
+/**
+ * Creates a scanner on one line of a document, without its line break, which starts scanning in the given state. A block comment or a
+ * string which continues on the next line has no scan error, and the state after it is the state to scan the next line in.
+ */
+export function createLineScanner(line: string, startState: LineScanState = LineScanState.Default): JSON5LineScanner {
+	// the text of the line is scanned after the start of the comment or string which the line is in
+	const prefix = getStatePrefix(startState);
+	const text = prefix + line;
+	const scanner = createScanner(text, false);
+	let state = startState;
+
+	function getEndState(): LineScanState {
+		const token = scanner.getToken();
+		if (token === SyntaxKind.BlockCommentTrivia && scanner.getTokenError() === ScanError.UnexpectedEndOfComment) {
+			return LineScanState.BlockComment;
+		}
+		if (token === SyntaxKind.StringLiteral && scanner.getTokenError() === ScanError.UnexpectedEndOfString) {
+			// a backslash which isn't escaped continues the string on the next line
+			const trailingBackslashes = /\\*$/.exec(text)![0].length;
+			if (trailingBackslashes % 2 === 1) {
+				return text.charAt(scanner.getTokenOffset()) === '\'' ? LineScanState.SingleQuotedString : LineScanState.DoubleQuotedString;
+			}
+		}
+		return LineScanState.Default;
+	}
+
+	const getTokenEnd = () => scanner.getPosition() - prefix.length;
+	const getTokenOffset = () => Math.max(scanner.getTokenOffset() - prefix.length, 0);
+
+	return {
+		setPosition: (pos: number) => {
+			scanner.setPosition(pos === 0 ? 0 : pos + prefix.length);
+			state = pos === 0 ? startState : LineScanState.Default;
+		},
+		getPosition: getTokenEnd,
+		scan: () => {
+			const token = scanner.scan();
+			if (token !== SyntaxKind.EOF) {
+				state = getEndState();
+			}
+			return token;
+		},
+		getToken: () => scanner.getToken(),
+		getTokenValue: () => {
+			const value = scanner.getTokenValue();
+			return scanner.getToken() === SyntaxKind.BlockCommentTrivia && scanner.getTokenOffset() === 0 ? value.substring(prefix.length) : value;
+		},
+		getTokenOffset,
+		getTokenLength: () => getTokenEnd() - getTokenOffset(),
+		getTokenStartLine: () => scanner.getTokenStartLine(),
+		getTokenStartCharacter: () => scanner.getTokenStartLine() === 0 ? getTokenOffset() : scanner.getTokenStartCharacter(),
+		getTokenError: () => scanner.getToken() !== SyntaxKind.EOF && state !== LineScanState.Default ? ScanError.None : scanner.getTokenError(),
+		getState: () => state
+	};
+}
+
+function getStatePrefix(state: LineScanState): string {
+	switch (state) {
+		case LineScanState.BlockComment:
+			return '/*';
+		case LineScanState.SingleQuotedString:
+			return '\'';
+		case LineScanState.DoubleQuotedString:
+			return '"';
+		default:
+			return '';
+	}
+}
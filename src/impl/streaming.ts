@@ -0,0 +1,333 @@
+import type { Transform } from 'stream';
+import { formatErrorMessage } from './diagnostics';
+import { assignProperty, createTokenParser } from './parser';
+import { createScanner } from './scanner';
+import {
+	ArrayElement,
+	JSON5Scanner,
+	JSON5StreamingParser,
+	JSON5Visitor,
+	ParseErrorCode,
+	ParseOptions,
+	Path,
+	Segment,
+	StreamingParseError,
+	SyntaxKind
+} from '../main';
+
+// The number of characters which have to follow a token before it's parsed. The scanner looks a few characters past the end of some tokens,
+// at most in `-Infinity`, which it scans as the token `-I` if the text ends after `-I`, so a token followed by fewer characters could still
+// turn out to be different once the next chunk arrives.
+const lookahead = 16;
+
+/**
+ * Creates a parser which is written the text of a document in chunks, and invokes the visitor functions as soon as the tokens are complete.
+ */
+export function createStreamingParser(visitor: JSON5Visitor, options: ParseOptions = {}): JSON5StreamingParser {
+	let buffer = ''; // the text after the last token which has been parsed
+	let bufferOffset = 0; // the offset, line and character of the buffer in the document
+	let bufferLine = 0;
+	let bufferCharacter = 0;
+	let minimumBufferLength = 0;
+	let documentLength = 0;
+	let ended = false;
+	let done = false;
+	let scanner: JSON5Scanner = createScanner(buffer, false);
+
+	const parser = createTokenParser({
+		getToken: () => scanner.getToken(),
+		getTokenValue: () => scanner.getTokenValue(),
+		getTokenOffset: () => bufferOffset + scanner.getTokenOffset(),
+		getTokenLength: () => scanner.getTokenLength(),
+		getTokenStartLine: () => bufferLine + scanner.getTokenStartLine(),
+		getTokenStartCharacter: () => scanner.getTokenStartLine() === 0 ? bufferCharacter + scanner.getTokenStartCharacter() : scanner.getTokenStartCharacter(),
+		getTokenError: () => scanner.getTokenError(),
+		getTokenText: () => buffer.substr(scanner.getTokenOffset(), scanner.getTokenLength())
+	}, visitor, options);
+
+	function parseBuffer(): void {
+		scanner = createScanner(buffer, false);
+		while (!done) {
+			const token = scanner.scan();
+			if (!ended && (token === SyntaxKind.EOF || scanner.getPosition() > buffer.length - lookahead)) {
+				break;
+			}
+			done = !parser.next();
+		}
+		if (done) {
+			buffer = '';
+			return;
+		}
+		// keep the text of the token which might continue in the next chunk
+		const tokenOffset = scanner.getTokenOffset();
+		const tokenLine = scanner.getTokenStartLine();
+		bufferOffset += tokenOffset;
+		bufferCharacter = tokenLine === 0 ? bufferCharacter + scanner.getTokenStartCharacter() : scanner.getTokenStartCharacter();
+		bufferLine += tokenLine;
+		buffer = buffer.substring(tokenOffset);
+		// scanning a long token again for every chunk would take quadratic time, so it's scanned again once the buffer has doubled
+		minimumBufferLength = 2 * buffer.length;
+	}
+
+	return {
+		write: (chunk: string) => {
+			if (ended) {
+				throw new Error('Can not write after end');
+			}
+			if (done) {
+				return;
+			}
+			documentLength += chunk.length;
+			if (options.maxDocumentLength !== undefined && documentLength > options.maxDocumentLength) {
+				if (visitor.onError) {
+					visitor.onError(ParseErrorCode.LimitExceeded, 0, documentLength, 0, 0);
+				}
+				done = true;
+				buffer = '';
+				return;
+			}
+			buffer += chunk;
+			if (buffer.length >= minimumBufferLength) {
+				parseBuffer();
+			}
+		},
+		end: () => {
+			if (ended) {
+				return;
+			}
+			ended = true;
+			if (!done) {
+				parseBuffer();
+			}
+		}
+	};
+}
+
+interface ContainerFrame {
+	isArray: boolean;
+	length: number;
+	key: Segment; // the key of the value which is parsed in the container
+	isTarget: boolean;
+}
+
+/**
+ * Creates a parser which is written the text of a document in chunks, and passes each element of the array at the path to `onElement` as
+ * soon as it's complete. Only the element which is being parsed is kept in memory. Writing throws an error at the first parse error, but
+ * not at a number which can't be represented exactly.
+ */
+export function createArrayElementParser(path: Path, onElement: (element: ArrayElement) => void, options: ParseOptions = {}): JSON5StreamingParser {
+	const containers: ContainerFrame[] = []; // the open containers around the array elements
+	const firstKeyWins = options.duplicateKeys === 'firstWins';
+	let elementDepth = 0; // the number of open containers in the element which is being parsed
+	let elementOffset = 0;
+	let element: any;
+	let currentParent: any;
+	let currentProperty: string | null = null;
+	const previousParents: any[] = [];
+	let error: StreamingParseError | undefined;
+
+	function isAtPath(): boolean {
+		if (containers.length !== path.length) {
+			return false;
+		}
+		for (let i = 0; i < path.length; i++) {
+			if (containers[i].key !== path[i]) {
+				return false;
+			}
+		}
+		return true;
+	}
+
+	/**
+	 * Returns true if the value which begins at the offset is an array element, or a part of one.
+	 */
+	function beginValue(offset: number): boolean {
+		if (elementDepth > 0) {
+			return true;
+		}
+		const parent = containers[containers.length - 1];
+		if (!parent) {
+			return false;
+		}
+		if (parent.isArray) {
+			parent.key = parent.length++;
+		}
+		if (!parent.isTarget) {
+			return false;
+		}
+		elementOffset = offset;
+		return true;
+	}
+
+	function onValue(value: any) {
+		if (elementDepth === 0) {
+			element = value;
+		} else if (Array.isArray(currentParent)) {
+			(<any[]>currentParent).push(value);
+		} else if (currentProperty !== null) {
+			assignProperty(currentParent, currentProperty, value);
+		}
+	}
+
+	function onElementEnd() {
+		const value = element;
+		element = undefined;
+		onElement({ value, offset: elementOffset });
+	}
+
+	function onContainerBegin(container: any, offset: number) {
+		if (beginValue(offset)) {
+			onValue(container);
+			previousParents.push(currentParent);
+			currentParent = container;
+			currentProperty = null;
+			elementDepth++;
+		} else {
+			const isArray = Array.isArray(container);
+			containers.push({ isArray, length: 0, key: '', isTarget: isArray && isAtPath() });
+		}
+	}
+
+	function onContainerEnd() {
+		if (elementDepth > 0) {
+			currentParent = previousParents.pop();
+			if (--elementDepth === 0) {
+				onElementEnd();
+			}
+		} else {
+			containers.pop();
+		}
+	}
+
+	const parser = createStreamingParser({
+		onObjectBegin: (offset: number) => {
+			onContainerBegin(options.nullPrototype ? Object.create(null) : {}, offset);
+		},
+		onObjectProperty: (name: string) => {
+			if (elementDepth === 0) {
+				containers[containers.length - 1].key = name;
+			} else if (firstKeyWins && Object.prototype.hasOwnProperty.call(currentParent, name)) {
+				currentProperty = null; // ignore the value
+			} else {
+				currentProperty = name;
+			}
+		},
+		onObjectEnd: onContainerEnd,
+		onArrayBegin: (offset: number) => {
+			onContainerBegin([], offset);
+		},
+		onArrayEnd: onContainerEnd,
+		onLiteralValue: (value: any, offset: number) => {
+			if (beginValue(offset)) {
+				onValue(value);
+				if (elementDepth === 0) {
+					onElementEnd();
+				}
+			}
+		},
+		onError: (code: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number) => {
+			// a number which can't be represented exactly is still a valid value, the nearest number is used
+			if (code !== ParseErrorCode.PrecisionLoss) {
+				error = createStreamingParseError(code, offset, length, startLine, startCharacter);
+				throw error;
+			}
+		}
+	}, options);
+
+	return {
+		write: (chunk: string) => {
+			if (error) {
+				throw error;
+			}
+			parser.write(chunk);
+		},
+		end: () => {
+			if (error) {
+				throw error;
+			}
+			parser.end();
+		}
+	};
+}
+
+function createStreamingParseError(code: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number): StreamingParseError {
+	const error = <StreamingParseError>new Error(formatErrorMessage(code, startLine, startCharacter));
+	error.error = code;
+	error.offset = offset;
+	error.length = length;
+	error.startLine = startLine;
+	error.startCharacter = startCharacter;
+	return error;
+}
+
+/**
+ * Creates a transform stream which is written the text of a document, as buffers or strings, and pushes each element of the array at the
+ * path as soon as it's complete. The stream emits an error at the first parse error.
+ */
+export function createArrayElementStream(path: Path, options?: ParseOptions): Transform {
+	// the Node.js modules are loaded here, so that only the users of the stream need them
+	const { StringDecoder }: typeof import('string_decoder') = require('string_decoder');
+	const { Transform }: typeof import('stream') = require('stream');
+	const decoder = new StringDecoder('utf8'); // a character can be split across buffers
+	const stream = new Transform({
+		readableObjectMode: true,
+		transform: (chunk: Buffer | string, encoding: string, callback: (error?: Error) => void) => {
+			try {
+				parser.write(typeof chunk === 'string' ? chunk : decoder.write(chunk));
+			} catch (e) {
+				callback(e);
+				return;
+			}
+			callback();
+		},
+		flush: (callback: (error?: Error) => void) => {
+			try {
+				parser.write(decoder.end());
+				parser.end();
+			} catch (e) {
+				callback(e);
+				return;
+			}
+			callback();
+		}
+	});
+	const parser = createArrayElementParser(path, element => {
+		stream.push(element);
+	}, options);
+	return stream;
+}
+
+/**
+ * Reads a document from the chunks of text of the source, and yields each element of the array at the path as soon as it's complete.
+ */
+export async function* iterateArray(source: AsyncIterable<string>, path: Path, options?: ParseOptions): AsyncIterableIterator<ArrayElement> {
+	let elements: ArrayElement[] = [];
+	const parser = createArrayElementParser(path, element => {
+		elements.push(element);
+	}, options);
+
+	function takeElements(): ArrayElement[] {
+		const completed = elements;
+		elements = [];
+		return completed;
+	}
+
+	try {
+		for await (const chunk of source) {
+			parser.write(chunk);
+			for (const element of takeElements()) {
+				yield element;
+			}
+		}
+		parser.end();
+	} catch (e) {
+		// the elements which were complete before the error are still yielded
+		for (const element of takeElements()) {
+			yield element;
+		}
+		throw e;
+	}
+	for (const element of takeElements()) {
+		yield element;
+	}
+}
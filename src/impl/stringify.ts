@@ -0,0 +1,141 @@
+import { repeat } from './format';
+import { StringifyOptions } from '../main';
+
+const escapes: { [character: string]: string } = {
+	'\b': '\\b',
+	'\f': '\\f',
+	'\n': '\\n',
+	'\r': '\\r',
+	'\t': '\\t',
+	'\v': '\\v',
+	'\u2028': '\\u2028',
+	'\u2029': '\\u2029'
+};
+
+// See IdentifierName in grammar.ts. Escape sequences are never written, so they're not matched here.
+const identifierName = /^[$_\p{L}\p{Nl}][$_\p{L}\p{Nl}\p{Mn}\p{Mc}\p{Nd}\p{Pc}\u200C\u200D]*$/u;
+const nonASCII = /[^\x00-\x7F]/;
+
+/**
+ * Serializes the given value as JSON5 text. Returns undefined if the value itself can not be serialized (for example `undefined` or a
+ * function), like `JSON.stringify` does.
+ */
+export function stringify(value: any, options: StringifyOptions = {}): string | undefined {
+	const indentUnit = typeof options.indent === 'number' ? repeat(' ', Math.min(options.indent, 10)) : (options.indent || '');
+	const stack: any[] = [];
+
+	function serializeValue(value: any, key: string, indent: string, prefixLength: number): string | undefined {
+		if (value !== null && typeof value === 'object' && typeof value.toJSON === 'function') {
+			value = value.toJSON(key);
+		}
+		if (value instanceof Number || value instanceof String || value instanceof Boolean) {
+			value = value.valueOf();
+		}
+		switch (typeof value) {
+			case 'boolean':
+				return String(value);
+			case 'number':
+				return serializeNumber(value);
+			case 'bigint':
+				return value.toString();
+			case 'string':
+				return quoteString(value, options);
+			case 'object':
+				if (value === null) {
+					return 'null';
+				}
+				return Array.isArray(value) ? serializeArray(value, indent, prefixLength) : serializeObject(value, indent);
+			default:
+				return undefined;
+		}
+	}
+
+	function serializeObject(object: any, indent: string): string {
+		enter(object);
+		const innerIndent = indent + indentUnit;
+		const separator = indentUnit ? ': ' : ':';
+		const properties: string[] = [];
+		for (const key of Object.keys(object)) {
+			const name = stringifyPropertyName(key, options);
+			const value = serializeValue(object[key], key, innerIndent, innerIndent.length + name.length + separator.length);
+			if (value !== undefined) {
+				properties.push(name + separator + value);
+			}
+		}
+		stack.pop();
+		return wrap('{', '}', properties, indent);
+	}
+
+	function serializeArray(array: any[], indent: string, prefixLength: number): string {
+		enter(array);
+		const innerIndent = indent + indentUnit;
+		const items: string[] = [];
+		for (let i = 0; i < array.length; i++) {
+			const item = serializeValue(array[i], String(i), innerIndent, innerIndent.length);
+			items.push(item === undefined ? 'null' : item);
+		}
+		stack.pop();
+
+		if (indentUnit && options.maxLineWidth !== undefined && items.every(item => item.indexOf('\n') === -1)) {
+			const singleLine = '[' + items.join(', ') + ']';
+			if (prefixLength + singleLine.length <= options.maxLineWidth) {
+				return singleLine;
+			}
+		}
+		return wrap('[', ']', items, indent);
+	}
+
+	function wrap(open: string, close: string, items: string[], indent: string): string {
+		if (items.length === 0) {
+			return open + close;
+		}
+		if (!indentUnit) {
+			return open + items.join(',') + close;
+		}
+		const innerIndent = indent + indentUnit;
+		const trailingComma = options.trailingCommas ? ',' : '';
+		return open + '\n' + innerIndent + items.join(',\n' + innerIndent) + trailingComma + '\n' + indent + close;
+	}
+
+	function enter(value: any): void {
+		if (stack.indexOf(value) !== -1) {
+			throw new TypeError('Converting circular structure to JSON5');
+		}
+		stack.push(value);
+	}
+
+	return serializeValue(value, '', '', 0);
+}
+
+export function stringifyPropertyName(name: string, options: StringifyOptions = {}): string {
+	if (options.quoteKeys !== 'always' && identifierName.test(name) && !(options.asciiOnly && nonASCII.test(name))) {
+		return name;
+	}
+	return quoteString(name, options);
+}
+
+function quoteString(value: string, options: StringifyOptions): string {
+	const quote = options.quote || '"';
+	let result = quote;
+	for (let i = 0; i < value.length; i++) {
+		const ch = value.charAt(i);
+		const code = value.charCodeAt(i);
+		if (ch === quote || ch === '\\') {
+			result += '\\' + ch;
+		} else if (escapes[ch]) {
+			result += escapes[ch];
+		} else if (code < 0x20 || code === 0x7F || (options.asciiOnly && code > 0x7F)) {
+			result += '\\u' + ('000' + code.toString(16).toUpperCase()).slice(-4);
+		} else {
+			result += ch;
+		}
+	}
+	return result + quote;
+}
+
+function serializeNumber(value: number): string {
+	if (value === 0 && 1 / value < 0) {
+		return '-0';
+	}
+	return String(value);
+}
@@ -6,6 +6,14 @@
 
 import * as scanner from './impl/scanner';
 import * as parser from './impl/parser';
+import * as formatter from './impl/format';
+import * as edit from './impl/edit';
+import * as converter from './impl/convert';
+import * as stringifier from './impl/stringify';
+import * as cst from './impl/cst';
+import * as diagnostics from './impl/diagnostics';
+import * as streaming from './impl/streaming';
+import type { Transform } from 'stream';
 
 /**
  * Creates a JSON5 scanner on the given text.
@@ -13,10 +21,41 @@ import * as parser from './impl/parser';
  */
 export const createScanner: (text: string, ignoreTrivia?: boolean) => JSON5Scanner = scanner.createScanner;
 
+/**
+ * Creates a scanner on a single line of a document, without its line break, for tokenizers which scan a document line by line. The line is
+ * scanned in the given state, which is the state of the scanner of the previous line after its last token: `getState` tells whether the
+ * line ends inside a block comment or inside a string with a line continuation. Offsets and characters are relative to the line.
+ */
+export const createLineScanner: (line: string, state?: LineScanState) => JSON5LineScanner = scanner.createLineScanner;
+
+/**
+ * Where a line of a document starts: outside of comments and strings, in a block comment, or in a string after a line continuation.
+ */
+export const enum LineScanState {
+	Default,
+	BlockComment,
+	SingleQuotedString,
+	DoubleQuotedString
+}
+
+export function printLineScanState(state: LineScanState): string {
+	switch (state) {
+		case LineScanState.Default: return 'Default';
+		case LineScanState.BlockComment: return 'BlockComment';
+		case LineScanState.SingleQuotedString: return 'SingleQuotedString';
+		case LineScanState.DoubleQuotedString: return 'DoubleQuotedString';
+	}
+}
+
 export const enum ScanError {
 	None,
 	UnexpectedEndOfComment,
-	UnexpectedEndOfString
+	UnexpectedEndOfString,
+	InvalidEscapeCharacter,
+	InvalidHexEscape,
+	InvalidUnicodeEscape,
+	MissingHexDigits,
+	MultipleDecimalPoints
 }
 
 export function printScanError(code: ScanError): string {
@@ -24,6 +63,11 @@ export function printScanError(code: ScanError): string {
 		case ScanError.None: return 'None';
 		case ScanError.UnexpectedEndOfComment: return 'UnexpectedEndOfComment';
 		case ScanError.UnexpectedEndOfString: return 'UnexpectedEndOfString';
+		case ScanError.InvalidEscapeCharacter: return 'InvalidEscapeCharacter';
+		case ScanError.InvalidHexEscape: return 'InvalidHexEscape';
+		case ScanError.InvalidUnicodeEscape: return 'InvalidUnicodeEscape';
+		case ScanError.MissingHexDigits: return 'MissingHexDigits';
+		case ScanError.MultipleDecimalPoints: return 'MultipleDecimalPoints';
 	}
 }
 
@@ -96,7 +140,8 @@ export interface JSON5Scanner {
 	 */
 	getToken(): SyntaxKind;
 	/**
-	 * Returns the last read token value. The value for strings is the decoded string content. For numbers it's of type number, for boolean it's true or false.
+	 * Returns the last read token value. The value for strings is the decoded string content, and for identifiers the name with escape
+	 * sequences decoded. For all other tokens it's the text of the token.
 	 */
 	getTokenValue(): string;
 	/**
@@ -121,6 +166,16 @@ export interface JSON5Scanner {
 	getTokenError(): ScanError;
 }
 
+/**
+ * A scanner on a single line of a document.
+ */
+export interface JSON5LineScanner extends JSON5Scanner {
+	/**
+	 * Returns the state after the last read token. Once the line has been scanned, this is the state to scan the next line in.
+	 */
+	getState(): LineScanState;
+}
+
 
 /**
  * For a given offset, evaluate the location in the JSON5 document. Each segment in the location path is either a property name or an array index.
@@ -133,11 +188,38 @@ export const getLocation: (text: string, position: number) => Location = parser.
  */
 export const parse: (text: string, errors?: ParseError[], options?: ParseOptions) => any = parser.parse;
 
+/**
+ * Parses a sequence of top-level values, such as concatenated or newline-delimited JSON5 documents with comments between them, and returns
+ * each value with its offset range and its own errors. A document ends early at a line which starts with `{` or `[` where it can't have a
+ * value, so that a bad document doesn't stop the documents after it from being parsed. The `maxTokens` and `maxDepth` limits apply to each
+ * document.
+ */
+export const parseAll: (text: string, options?: ParseOptions) => ParsedDocument[] = parser.parseAll;
+
 /**
  * Parses the given text and returns a tree representation the JSON5 content. On invalid input, the parser tries to be as fault tolerant as possible, but still return a result.
  */
 export const parseTree: (text: string, errors?: ParseError[], options?: ParseOptions) => Node = parser.parseTree;
 
+/**
+ * Updates the tree which `parseTree` returned for a document after the given edits, with offsets in the previous document, turned it into
+ * the given text. Only the innermost object or array which contains the edits is parsed again: the other nodes are reused, with their
+ * offsets shifted. The tree is changed in place, so only the returned tree can be used afterwards. The options need to be those which the
+ * tree was parsed with. Errors are only reported for the part of the document which is parsed again.
+ */
+export const updateTree: (text: string, tree: Node, edits: Edit[], errors?: ParseError[], options?: ParseOptions) => Node = parser.updateTree;
+
+/**
+ * Parses the given text into a lossless concrete syntax tree. Every token of `createScanner`, including whitespace and comments, belongs to
+ * exactly one element of the tree, so `printCST` gives back the exact text, even when the text has errors.
+ */
+export const parseCST: (text: string) => CSTNode = cst.parseCST;
+
+/**
+ * Returns the text of a concrete syntax tree or of one of its elements.
+ */
+export const printCST: (element: CSTElement) => string = cst.printCST;
+
 /**
  * Finds the node at the given path in a JSON5 DOM.
  */
@@ -163,10 +245,166 @@ export const getNodeValue: (node: Node) => any = parser.getNodeValue;
  */
 export const visit: (text: string, visitor: JSON5Visitor, options?: ParseOptions) => any = parser.visit;
 
+/**
+ * Creates a parser for a document which arrives in chunks of text, for example from a stream. The visitor functions are invoked as soon as
+ * the tokens are complete, with offsets, lines and characters in the whole document.
+ */
+export const createStreamingParser: (visitor: JSON5Visitor, options?: ParseOptions) => JSON5StreamingParser = streaming.createStreamingParser;
+
+/**
+ * Creates a parser for a document which arrives in chunks of text, which passes each element of the array at the given path to `onElement`
+ * as soon as the element is complete. Writing throws a `StreamingParseError` at the first parse error. A number which can't be represented
+ * exactly isn't an error: the nearest number is used, unless the `bigNumbers` option says otherwise. The `reviver` option is not supported.
+ */
+export const createArrayElementParser: (path: Path, onElement: (element: ArrayElement) => void, options?: ParseOptions) => JSON5StreamingParser = streaming.createArrayElementParser;
+
+/**
+ * Creates a Node.js transform stream in object mode, which is written the text of a document as buffers or strings and pushes each element
+ * of the array at the given path, as an `ArrayElement`, as soon as the element is complete. The stream emits a `StreamingParseError` at the
+ * first parse error. A number which can't be represented exactly isn't an error: the nearest number is used, unless the `bigNumbers` option
+ * says otherwise. The `reviver` option is not supported.
+ */
+export const createArrayElementStream: (path: Path, options?: ParseOptions) => Transform = streaming.createArrayElementStream;
+
+/**
+ * Reads a document from a source of text chunks, such as a Node.js readable stream with an encoding set, and yields each element of the
+ * array at the given path as soon as the element is complete, without keeping the array in memory. Nothing is yielded if there is no array
+ * at the path. The iteration throws a `StreamingParseError` at the first parse error. A number which can't be represented exactly isn't an
+ * error: the nearest number is used, unless the `bigNumbers` option says otherwise. The `reviver` option is not supported.
+ */
+export const iterateArray: (source: AsyncIterable<string>, path: Path, options?: ParseOptions) => AsyncIterableIterator<ArrayElement> = streaming.iterateArray;
+
+/**
+ * Takes JSON5 with JavaScript-style comments and removes them. Optionally replaces every character of a comment other than a line break with replaceCh,
+ * for example with ' ' to keep offsets and line numbers unchanged.
+ */
+export const stripComments: (text: string, replaceCh?: string) => string = parser.stripComments;
+
+/**
+ * Converts the given JSON5 text to strict JSON text (RFC 8259). Comments and trailing commas are removed, property names and strings are
+ * double-quoted, numbers are rewritten in decimal notation and whitespace that JSON does not allow is replaced. Everything else is left as is.
+ * Values that JSON cannot represent are handled according to the options. Parse errors in the input and values which could not be converted
+ * are reported in the errors list.
+ */
+export const convertToJSON: (text: string, errors?: ParseError[], options?: ConversionOptions) => string = converter.convertToJSON;
+
+/**
+ * Serializes the given value as JSON5 text that `parse` accepts. Like `JSON.stringify`, `toJSON` methods are called, properties with values that
+ * can not be serialized are left out and such array items are written as `null`. Returns undefined if the value itself can not be serialized.
+ * A bigint is written as an integer, which `parse` reads back as a bigint with the `bigNumbers` option.
+ */
+export const stringify: (value: any, options?: StringifyOptions) => string | undefined = stringifier.stringify;
+
+/**
+ * Computes the edits needed to format a JSON5 document. Comments are kept in place.
+ *
+ * @param documentText The input text
+ * @param range The range to format or `undefined` to format the full content
+ * @param options The formatting options
+ * @returns A list of edit operations describing the formatting changes to the original document. Edits can be either inserts, replacements or
+ * removals of text segments. All offsets refer to the original state of the document. No two edits change or remove the same range of
+ * text in the original document. However, multiple edits can have the same offset, for example multiple inserts, or an insert followed by
+ * a remove or replace. The order in the array defines which edit is applied first.
+ */
+export const format: (documentText: string, range: Range | undefined, options: FormattingOptions) => Edit[] = formatter.format;
+
+/**
+ * Computes the edits needed to modify a value in the JSON5 document. Comments and formatting outside of the affected region are preserved.
+ *
+ * @param text The input text
+ * @param path The path of the value to change. The path represents either to the document root, a property or an array item.
+ * If the path points to an non-existing property or item, it will be created.
+ * @param value The new value for the specified property or item. If the value is undefined, the property or item will be removed.
+ * @param options Options
+ * @returns A list of edit operations describing the changes to the original document. All offsets refer to the original state of the document.
+ */
+export const modify: (text: string, path: Path, value: any, options: ModificationOptions) => Edit[] = edit.setProperty;
+
+/**
+ * Applies edits to an input string. The edits are sorted by offset before they are applied, inserts with the same offset are applied in the
+ * order they appear in the array, before an edit which changes the text at that offset. Throws an error if two edits change or remove an
+ * overlapping range of text.
+ *
+ * @param text The input text
+ * @param edits Edit operations following the format described in `format` and `modify`, possibly combined from several sources
+ * @returns The text with the applied edits.
+ */
+export const applyEdits: (text: string, edits: Edit[]) => string = edit.applyEdits;
+
 export interface ParseError {
 	error: ParseErrorCode;
 	offset: number;
 	length: number;
+	/**
+	 * The zero-based line on which the error starts.
+	 */
+	startLine: number;
+	/**
+	 * The zero-based character on the start line at which the error starts.
+	 */
+	startCharacter: number;
+	/**
+	 * The zero-based line on which the error ends.
+	 */
+	endLine: number;
+	/**
+	 * The zero-based character on the end line at which the error ends, exclusive.
+	 */
+	endCharacter: number;
+}
+
+/**
+ * A top-level value parsed by `parseAll`.
+ */
+export interface ParsedDocument {
+	/**
+	 * The value, as `parse` would return it.
+	 */
+	value: any;
+	/**
+	 * The offset of the value in the text.
+	 */
+	offset: number;
+	/**
+	 * The length of the value, from its first to its last token.
+	 */
+	length: number;
+	/**
+	 * The errors in the value and in the comments around it.
+	 */
+	errors: ParseError[];
+}
+
+/**
+ * A text range in the document
+ */
+export interface Range {
+	/**
+	 * The start offset of the range.
+	 */
+	offset: number;
+	/**
+	 * The length of the range. Must not be negative.
+	 */
+	length: number;
+}
+
+/**
+ * Represents a text modification
+ */
+export interface Edit {
+	/**
+	 * The start offset of the modification.
+	 */
+	offset: number;
+	/**
+	 * The length of the modification. Must not be negative. Empty length represents an *insert*.
+	 */
+	length: number;
+	/**
+	 * The new content. Empty content represents a *remove*.
+	 */
+	content: string;
 }
 
 export const enum ParseErrorCode {
@@ -181,7 +419,28 @@ export const enum ParseErrorCode {
 	EndOfFileExpected,
 	UnexpectedEndOfComment,
 	UnexpectedEndOfString,
-	InvalidString
+	InvalidString,
+	NonFiniteNumber,
+	InvalidCommentToken,
+	TrailingComma,
+	SingleQuotedString,
+	UnquotedPropertyName,
+	HexadecimalNumber,
+	LeadingPlusSign,
+	LeadingOrTrailingDecimalPoint,
+	LineContinuation,
+	InvalidEscapeSequence,
+	DuplicateKey,
+	PrototypeKey,
+	LimitExceeded,
+	PrecisionLoss,
+	InvalidHexEscape,
+	InvalidUnicodeEscape,
+	MissingHexDigits,
+	MultipleDecimalPoints,
+	UnexpectedLineSeparator,
+	InvalidWhitespace,
+	UnescapedControlCharacter
 }
 
 export function printParseErrorCode(code: ParseErrorCode): string {
@@ -198,9 +457,35 @@ export function printParseErrorCode(code: ParseErrorCode): string {
 		case ParseErrorCode.UnexpectedEndOfComment: return 'UnexpectedEndOfComment';
 		case ParseErrorCode.UnexpectedEndOfString: return 'UnexpectedEndOfString';
 		case ParseErrorCode.InvalidString: return 'InvalidString';
+		case ParseErrorCode.NonFiniteNumber: return 'NonFiniteNumber';
+		case ParseErrorCode.InvalidCommentToken: return 'InvalidCommentToken';
+		case ParseErrorCode.TrailingComma: return 'TrailingComma';
+		case ParseErrorCode.SingleQuotedString: return 'SingleQuotedString';
+		case ParseErrorCode.UnquotedPropertyName: return 'UnquotedPropertyName';
+		case ParseErrorCode.HexadecimalNumber: return 'HexadecimalNumber';
+		case ParseErrorCode.LeadingPlusSign: return 'LeadingPlusSign';
+		case ParseErrorCode.LeadingOrTrailingDecimalPoint: return 'LeadingOrTrailingDecimalPoint';
+		case ParseErrorCode.LineContinuation: return 'LineContinuation';
+		case ParseErrorCode.InvalidEscapeSequence: return 'InvalidEscapeSequence';
+		case ParseErrorCode.DuplicateKey: return 'DuplicateKey';
+		case ParseErrorCode.PrototypeKey: return 'PrototypeKey';
+		case ParseErrorCode.LimitExceeded: return 'LimitExceeded';
+		case ParseErrorCode.PrecisionLoss: return 'PrecisionLoss';
+		case ParseErrorCode.InvalidHexEscape: return 'InvalidHexEscape';
+		case ParseErrorCode.InvalidUnicodeEscape: return 'InvalidUnicodeEscape';
+		case ParseErrorCode.MissingHexDigits: return 'MissingHexDigits';
+		case ParseErrorCode.MultipleDecimalPoints: return 'MultipleDecimalPoints';
+		case ParseErrorCode.UnexpectedLineSeparator: return 'UnexpectedLineSeparator';
+		case ParseErrorCode.InvalidWhitespace: return 'InvalidWhitespace';
+		case ParseErrorCode.UnescapedControlCharacter: return 'UnescapedControlCharacter';
 	}
 }
 
+/**
+ * Formats a parse error for display: a message with the position of the error, followed by the lines around it in which the error is underlined.
+ */
+export const formatParseError: (text: string, error: ParseError) => string = diagnostics.formatParseError;
+
 export type NodeType = 'object' | 'array' | 'property' | 'string' | 'number' | 'boolean' | 'null';
 
 export interface Node {
@@ -211,8 +496,81 @@ export interface Node {
 	readonly colonOffset?: number;
 	readonly parent?: Node;
 	readonly children?: Node[];
+	/**
+	 * The literal as written in the document. Only set by `parseTree` with the `literalStyle` option, for values other than objects and
+	 * arrays and for property names.
+	 */
+	readonly raw?: string;
+	/**
+	 * The quote of a string or property name, or undefined for an unquoted property name. Only set with the `literalStyle` option.
+	 */
+	readonly quote?: '"' | '\'';
+	/**
+	 * How a number is written. Only set with the `literalStyle` option.
+	 */
+	readonly numberFormat?: NumberFormat;
+	/**
+	 * The comments before the node. Only set by `parseTree` with the `attachComments` option.
+	 */
+	readonly leadingComments?: NodeComment[];
+	/**
+	 * The comments after the node on the same line, and the comments at the end of an object or array after its last node. Comments in an
+	 * empty object or array are trailing comments of the object or array. Only set by `parseTree` with the `attachComments` option.
+	 */
+	readonly trailingComments?: NodeComment[];
+}
+
+export interface NodeComment {
+	readonly kind: 'line' | 'block';
+	/**
+	 * The text of the comment without the delimiters, that is without `//` for line comments and without the opening and closing
+	 * delimiters for block comments.
+	 */
+	readonly text: string;
+	readonly offset: number;
+	readonly length: number;
+}
+
+export interface NumberFormat {
+	/**
+	 * The explicit sign of the number, or '' if there is none.
+	 */
+	readonly sign: '+' | '-' | '';
+	readonly hexadecimal: boolean;
+	/**
+	 * Whether the number starts with a decimal point, like `.5`.
+	 */
+	readonly leadingDecimalPoint: boolean;
+	/**
+	 * Whether the number has a decimal point without digits after it, like `5.` or `5.e3`.
+	 */
+	readonly trailingDecimalPoint: boolean;
 }
 
+export type CSTNodeType = 'document' | 'object' | 'array' | 'property';
+
+/**
+ * A node of the concrete syntax tree. Objects contain property nodes and the braces, commas and trivia between them. Property nodes contain
+ * the property name, the colon and the value, with the trivia between them. Values other than objects and arrays are tokens.
+ */
+export interface CSTNode {
+	readonly type: CSTNodeType;
+	readonly offset: number;
+	readonly length: number;
+	readonly children: CSTElement[];
+}
+
+export interface CSTToken {
+	readonly type: 'token';
+	readonly kind: SyntaxKind;
+	readonly text: string;
+	readonly offset: number;
+	readonly length: number;
+	readonly error: ScanError;
+}
+
+export type CSTElement = CSTNode | CSTToken;
+
 export type Segment = string | number;
 export type Path = Segment[];
 
@@ -240,6 +598,113 @@ export interface Location {
 
 export interface ParseOptions {
 	allowEmptyContent?: boolean;
+	/**
+	 * The accepted language. Defaults to 'json5'. With 'json' or 'jsonc' (JSON with comments and trailing commas, as used by VS Code),
+	 * JSON5-only syntax is reported as an error but otherwise handled as usual.
+	 */
+	dialect?: 'json' | 'jsonc' | 'json5';
+	/**
+	 * If set, comments are reported as `InvalidCommentToken` errors.
+	 */
+	disallowComments?: boolean;
+	/**
+	 * If set, trailing commas in objects and arrays are reported as `TrailingComma` errors.
+	 */
+	disallowTrailingComma?: boolean;
+	/**
+	 * If set, property names which are not strings are reported as `UnquotedPropertyName` errors.
+	 */
+	disallowUnquotedKeys?: boolean;
+	/**
+	 * How to handle an object with the same property name more than once. With 'lastWins' (the default), `parse` uses the last value. With
+	 * 'firstWins', `parse` uses the first value. With 'error', each repeated property name is reported as a `DuplicateKey` error and `parse`
+	 * uses the last value.
+	 */
+	duplicateKeys?: 'firstWins' | 'lastWins' | 'error';
+	/**
+	 * If set, `__proto__` and `constructor` property names are reported as `PrototypeKey` errors. Regardless of this option, `parse` always
+	 * treats `__proto__` as an own property and never changes the prototype of the objects it creates.
+	 */
+	disallowPrototypeKeys?: boolean;
+	/**
+	 * If set, `parse` creates objects without a prototype, like `getNodeValue` does.
+	 */
+	nullPrototype?: boolean;
+	/**
+	 * The maximum nesting depth of objects and arrays. The top-level value is at depth 1.
+	 */
+	maxDepth?: number;
+	/**
+	 * The maximum length of a string literal or quoted property name, measured in characters of the document including the quotes.
+	 */
+	maxStringLength?: number;
+	/**
+	 * The maximum number of tokens to scan, including comments and whitespace.
+	 */
+	maxTokens?: number;
+	/**
+	 * The maximum length of the document.
+	 */
+	maxDocumentLength?: number;
+	/**
+	 * Only used by `parse`. Like the reviver of `JSON.parse`, the function is called for every value after the values it contains, with the
+	 * object or array holding the value as `this`. The result replaces the value, or removes it if the result is undefined. The path and node
+	 * describe where the value is in the document, for example to report errors at the right location.
+	 */
+	reviver?: (key: string, value: any, path: Path, node?: Node) => any;
+	/**
+	 * How to handle integer literals, decimal or hexadecimal, which a number can't represent exactly. Defaults to 'error', which reports a
+	 * `PrecisionLoss` error and uses the nearest number. With 'number' the nearest number is used silently, with 'bigint' the value is a
+	 * `bigint` and with 'string' it is the literal as written in the document. A function is called with the literal and returns the value.
+	 */
+	bigNumbers?: 'error' | 'number' | 'bigint' | 'string' | ((lexeme: string) => any);
+	/**
+	 * If set, `parseTree` records how literals and property names are written in the `raw`, `quote` and `numberFormat` properties of the
+	 * nodes, so that tools which rewrite the document can keep the author's style.
+	 */
+	literalStyle?: boolean;
+	/**
+	 * If set, `parseTree` attaches comments to the nearest node, as the `leadingComments` and `trailingComments` of the node. Comments before
+	 * a property belong to the property node, not to its key or value.
+	 */
+	attachComments?: boolean;
+}
+
+export interface ConversionOptions {
+	/**
+	 * How to convert `Infinity`, `-Infinity` and `NaN`, which JSON cannot represent. With 'error' (the default), the value is reported as a
+	 * `NonFiniteNumber` error and written as `null`. With 'null' it is silently written as `null`, and with 'string' it is written as a string
+	 * like `"-Infinity"`.
+	 */
+	nonFiniteNumbers?: 'error' | 'null' | 'string';
+}
+
+export interface StringifyOptions {
+	/**
+	 * The quote character used for strings and quoted property names. Defaults to '"'.
+	 */
+	quote?: '"' | '\'';
+	/**
+	 * With 'asNeeded' (the default), property names are only quoted if they are not valid identifiers. With 'always', all property names are quoted.
+	 */
+	quoteKeys?: 'asNeeded' | 'always';
+	/**
+	 * If set, a trailing comma is added after the last property or item of objects and arrays that span multiple lines.
+	 */
+	trailingCommas?: boolean;
+	/**
+	 * The indentation, either as a number of spaces (at most 10) or as a string. If not set, everything is written on a single line.
+	 */
+	indent?: number | string;
+	/**
+	 * If set, arrays are written on a single line as long as that line, including its indentation and property name, is not longer than
+	 * this. Otherwise each item is written on its own line. Only used together with `indent`.
+	 */
+	maxLineWidth?: number;
+	/**
+	 * If set, all characters outside of the ASCII range are escaped.
+	 */
+	asciiOnly?: boolean;
 }
 
 export interface JSON5Visitor {
@@ -288,3 +753,73 @@ export interface JSON5Visitor {
 	 */
 	onError?: (error: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number) => void;
 }
+
+export interface JSON5StreamingParser {
+	/**
+	 * Parses the next chunk of the document. Tokens can be split across chunks: a token at the end of a chunk is parsed once the next chunk
+	 * shows where it ends.
+	 */
+	write(chunk: string): void;
+	/**
+	 * Parses the rest of the document. Writing after the end throws an error.
+	 */
+	end(): void;
+}
+
+/**
+ * The error which `createArrayElementParser`, `createArrayElementStream` and `iterateArray` throw at the first parse error.
+ */
+export interface StreamingParseError extends Error, Pick<ParseError, 'error' | 'offset' | 'length' | 'startLine' | 'startCharacter'> {
+}
+
+export interface ArrayElement {
+	/**
+	 * The value of the element, as `parse` would return it.
+	 */
+	value: any;
+	/**
+	 * The offset of the element in the document.
+	 */
+	offset: number;
+}
+
+/**
+ * Options used when computing the formatting edit operations
+ */
+export interface FormattingOptions {
+	/**
+	 * If indentation is based on spaces (`insertSpaces` = true), the number of spaces that make an indent.
+	 */
+	tabSize?: number;
+	/**
+	 * Is indentation based on spaces?
+	 */
+	insertSpaces?: boolean;
+	/**
+	 * The default 'end of line' character. If not set, '\n' is used as default.
+	 */
+	eol?: string;
+	/**
+	 * If set, will add a new line at the end of the document.
+	 */
+	insertFinalNewline?: boolean;
+}
+
+/**
+ * Options used when computing the modification edit operations
+ */
+export interface ModificationOptions {
+	/**
+	 * Formatting options. If undefined, the newly inserted code will be inserted unformatted.
+	 */
+	formattingOptions?: FormattingOptions;
+	/**
+	 * Default false. If `path` refers to an index of an array and `isArrayInsertion` is `true`, then
+	 * `modify` will insert a new item at that location instead of overwriting its contents.
+	 */
+	isArrayInsertion?: boolean;
+	/**
+	 * Optional function to define the insertion index given an existing list of properties.
+	 */
+	getInsertionIndex?: (properties: string[]) => number;
+}
@@ -0,0 +1,68 @@
+'use strict';
+
+import * as assert from 'assert';
+import { convertToJSON, ConversionOptions, ParseError, ParseErrorCode } from '../main';
+
+function assertConversion(input: string, expected: string, options?: ConversionOptions): void {
+	const errors: ParseError[] = [];
+	const actual = convertToJSON(input, errors, options);
+	assert.deepEqual(errors, [], `errors occurred when converting \`${input}\``);
+	assert.equal(actual, expected);
+	assert.doesNotThrow(() => JSON.parse(actual), `conversion of \`${input}\` is not valid JSON: \`${actual}\``);
+}
+
+suite('JSON5 - conversion to JSON', () => {
+	test('JSON is left untouched', () => {
+		assertConversion('{ "a": [1, -2.5e+3, true, false, null, "\\u00DC\\n"] }', '{ "a": [1, -2.5e+3, true, false, null, "\\u00DC\\n"] }');
+		assertConversion('\r\n[\t]\n', '\r\n[\t]\n');
+	});
+
+	test('strings', () => {
+		assertConversion("'single'", '"single"');
+		assertConversion("'it\\'s \"quoted\"'", '"it\'s \\"quoted\\""');
+		assertConversion('"line\\\ncontinuation"', '"linecontinuation"');
+		assertConversion('"\\x41\\v"', '"A\\u000b"');
+	});
+
+	test('property names', () => {
+		assertConversion("{ a: 1, 'b': 2, null: 3, Infinity: 4, $_c: 5 }", '{ "a": 1, "b": 2, "null": 3, "Infinity": 4, "$_c": 5 }');
+	});
+
+	test('numbers', () => {
+		assertConversion('[+1, .5, -.5, 5., 5.e3, +.5E-2]', '[1, 0.5, -0.5, 5, 5e3, 0.5E-2]');
+		assertConversion('[0x1F, -0XfF, +0x0]', '[31, -255, 0]');
+		assertConversion('0xFFFFFFFFFFFFFFFFFF', '4722366482869645213695');
+	});
+
+	test('trailing commas', () => {
+		assertConversion('{ a: [1, 2, ], }', '{ "a": [1, 2 ] }');
+		assertConversion('[[],{},]', '[[],{}]');
+	});
+
+	test('comments and whitespace', () => {
+		assertConversion('// header\n{ /* a */ a: 1, // one\n}', '\n{  "a": 1 \n}');
+		assertConversion('[1, \uFEFF\u000B2]', '[1,   2]');
+		assertConversion('[1,\u20282\u2029]', '[1,\n2\n]');
+	});
+
+	test('non-finite numbers', () => {
+		const input = '[Infinity, -Infinity, +NaN]';
+
+		const errors: ParseError[] = [];
+		assert.equal(convertToJSON(input, errors), '[null, null, null]');
+		assert.deepEqual(errors, [
+			{ error: ParseErrorCode.NonFiniteNumber, offset: 1, length: 8, startLine: 0, startCharacter: 1, endLine: 0, endCharacter: 9 },
+			{ error: ParseErrorCode.NonFiniteNumber, offset: 11, length: 9, startLine: 0, startCharacter: 11, endLine: 0, endCharacter: 20 },
+			{ error: ParseErrorCode.NonFiniteNumber, offset: 22, length: 4, startLine: 0, startCharacter: 22, endLine: 0, endCharacter: 26 }
+		]);
+
+		assertConversion(input, '[null, null, null]', { nonFiniteNumbers: 'null' });
+		assertConversion(input, '["Infinity", "-Infinity", "NaN"]', { nonFiniteNumbers: 'string' });
+	});
+
+	test('parse errors are reported', () => {
+		const errors: ParseError[] = [];
+		convertToJSON('{ a: 1 b: 2 }', errors);
+		assert.deepEqual(errors, [{ error: ParseErrorCode.CommaExpected, offset: 7, length: 1, startLine: 0, startCharacter: 7, endLine: 0, endCharacter: 8 }]);
+	});
+});
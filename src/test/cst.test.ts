@@ -0,0 +1,100 @@
+'use strict';
+
+import * as assert from 'assert';
+import { CSTElement, CSTNode, parseCST, printCST, ScanError, SyntaxKind } from '../main';
+
+function assertRoundTrip(text: string): CSTNode {
+	const tree = parseCST(text);
+	assert.equal(printCST(tree), text);
+
+	// the tokens cover the text without gaps or overlaps
+	let offset = 0;
+	function checkOffsets(element: CSTElement) {
+		if (element.type === 'token') {
+			assert.equal(element.offset, offset, `token \`${element.text}\` in \`${text}\` does not start where the previous token ended`);
+			assert.equal(element.text, text.substr(element.offset, element.length));
+			offset += element.length;
+		} else {
+			assert.equal(printCST(element), text.substr(element.offset, element.length));
+			element.children.forEach(checkOffsets);
+		}
+	}
+	checkOffsets(tree);
+	assert.equal(offset, text.length);
+	return tree;
+}
+
+function printShape(element: CSTElement): any {
+	return element.type === 'token' ? element.text : { [element.type]: element.children.map(printShape) };
+}
+
+suite('JSON5 - concrete syntax tree', () => {
+	test('structure', () => {
+		const tree = assertRoundTrip('// config\n{ a : 1, "b": [true ,/* x */ null, ], }\n');
+		assert.deepEqual(printShape(tree), {
+			document: [
+				'// config', '\n',
+				{
+					object: [
+						'{', ' ',
+						{ property: ['a', ' ', ':', ' ', '1'] },
+						',', ' ',
+						{ property: ['"b"', ':', ' ', { array: ['[', 'true', ' ', ',', '/* x */', ' ', 'null', ',', ' ', ']'] }] },
+						',', ' ', '}'
+					]
+				},
+				'\n'
+			]
+		});
+		const object = <CSTNode>tree.children[2];
+		assert.equal(object.offset, 10);
+		assert.equal(object.length, 39);
+	});
+
+	test('empty documents', () => {
+		assert.deepEqual(printShape(assertRoundTrip('')), { document: [] });
+		assert.deepEqual(printShape(assertRoundTrip(' \n')), { document: [' ', '\n'] });
+	});
+
+	test('invalid documents', () => {
+		const inputs = [
+			'{ a: 1 b: 2 }',
+			'[1, 2',
+			'{ "a": ',
+			'{ a }',
+			'[1, }, 2]',
+			'1 2 3',
+			'"unterminated',
+			'/* unterminated',
+			'{ "a": "b\n',
+			'# @ [ ] } {',
+			'\u2028\uFEFF\u00A0[0x, .e5, +Infinity]'
+		];
+		for (const input of inputs) {
+			assertRoundTrip(input);
+		}
+
+		const tree = parseCST('"a');
+		const token = tree.children[0];
+		assert.ok(token.type === 'token' && token.kind === SyntaxKind.StringLiteral && token.error === ScanError.UnexpectedEndOfString);
+		assert.equal(token.length, 2);
+	});
+
+	test('deeply nested documents', () => {
+		const depth = 10000;
+		const text = `${new Array(depth + 1).join('{ a: [')}1${new Array(depth + 1).join('] }')}`;
+		const tree = parseCST(text);
+		assert.equal(printCST(tree), text);
+		let element = tree.children[0];
+		let nodes = 0;
+		while (element.type !== 'token') {
+			nodes++;
+			element = element.children[element.type === 'property' ? 3 : element.type === 'object' ? 2 : 1];
+		}
+		assert.equal(nodes, 3 * depth);
+		assert.equal(element.text, '1');
+
+		const unclosed = new Array(depth + 1).join('[');
+		assert.equal(printCST(parseCST(unclosed)), unclosed);
+	});
+});
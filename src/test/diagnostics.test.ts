@@ -0,0 +1,78 @@
+'use strict';
+
+import * as assert from 'assert';
+import { formatParseError, parse, ParseError, ParseOptions } from '../main';
+
+function assertFormat(text: string, expected: string[], options?: ParseOptions): void {
+	const errors: ParseError[] = [];
+	parse(text, errors, options);
+	assert.equal(errors.map(error => formatParseError(text, error)).join('\n'), expected.join('\n'));
+}
+
+suite('formatParseError', () => {
+	test('single line', () => {
+		assertFormat('{ a: 1 b: 2 }', [
+			'Comma expected (1:8)',
+			'> 1 | { a: 1 b: 2 }',
+			'    |        ^'
+		]);
+		assertFormat('', [
+			'Value expected (1:1)',
+			'> 1 |',
+			'    | ^'
+		]);
+		assertFormat('[\t"a\\x4"]', [
+			'A \\x escape sequence needs two hexadecimal digits (1:5)',
+			'> 1 | [\t"a\\x4"]',
+			'    |  \t  ^^^'
+		]);
+	});
+
+	test('context lines', () => {
+		assertFormat('[\n  1,\n\n  2\n  3,\n  4,\n  5\n]', [
+			'Comma expected (5:3)',
+			'  3 |',
+			'  4 |   2',
+			'> 5 |   3,',
+			'    |   ^',
+			'  6 |   4,',
+			'  7 |   5'
+		]);
+		assertFormat('[\n1,\n2,\n3,\n4,\n5,\n6,\n7,\n8,\n9 10\n]', [
+			'Comma expected (10:3)',
+			'   8 | 7,',
+			'   9 | 8,',
+			'> 10 | 9 10',
+			'     |   ^^',
+			'  11 | ]'
+		]);
+	});
+
+	test('errors over several lines', () => {
+		assertFormat('[1, /* a\r\n\r\nbc', [
+			'Unexpected end of comment (1:5)',
+			'> 1 | [1, /* a',
+			'    |     ^^^^',
+			'> 2 |',
+			'    | ^',
+			'> 3 | bc',
+			'    | ^^',
+			'Value expected (3:3)',
+			'  1 | [1, /* a',
+			'  2 |',
+			'> 3 | bc',
+			'    |   ^',
+			'Closing bracket expected (3:3)',
+			'  1 | [1, /* a',
+			'  2 |',
+			'> 3 | bc',
+			'    |   ^'
+		]);
+		assertFormat('["a\\\nb"]', [
+			'Line continuations are not allowed (1:4)',
+			'> 1 | ["a\\',
+			'    |    ^',
+			'  2 | b"]'
+		], { dialect: 'json' });
+	});
+});
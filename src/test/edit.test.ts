@@ -0,0 +1,273 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import { applyEdits, Edit, format, FormattingOptions, ModificationOptions, modify } from '../main';
+
+suite('JSON5 - edits', () => {
+
+	function assertEdit(content: string, edits: Edit[], expected: string) {
+		assert(edits);
+		let lastEditOffset = content.length;
+		for (let i = edits.length - 1; i >= 0; i--) {
+			const edit = edits[i];
+			assert(edit.offset >= 0 && edit.length >= 0 && edit.offset + edit.length <= content.length);
+			assert(typeof edit.content === 'string');
+			assert(lastEditOffset >= edit.offset + edit.length); // make sure all edits are ordered
+			lastEditOffset = edit.offset;
+			content = content.substring(0, edit.offset) + edit.content + content.substring(edit.offset + edit.length);
+		}
+		assert.equal(content, expected);
+	}
+
+	const formattingOptions: FormattingOptions = {
+		insertSpaces: true,
+		tabSize: 2,
+		eol: '\n'
+	};
+
+	const options: ModificationOptions = {
+		formattingOptions
+	};
+
+	test('set property', () => {
+		let content = '{\n  x: "y"\n}';
+		let edits = modify(content, ['x'], 'bar', options);
+		assertEdit(content, edits, '{\n  x: "bar"\n}');
+
+		edits = modify(content, ['x'], BigInt('12345678901234567890'), options);
+		assertEdit(content, edits, '{\n  x: 12345678901234567890\n}');
+
+		content = 'true';
+		edits = modify(content, [], 'bar', options);
+		assertEdit(content, edits, '"bar"');
+
+		content = '{\n  x: "y"\n}';
+		edits = modify(content, ['x'], { key: true }, options);
+		assertEdit(content, edits, '{\n  x: {\n    key: true\n  }\n}');
+
+		content = '{\n  a: "b",  x: "y"\n}';
+		edits = modify(content, ['a'], null, options);
+		assertEdit(content, edits, '{\n  a: null,  x: "y"\n}');
+	});
+
+	test('insert property', () => {
+		let content = '{}';
+		let edits = modify(content, ['foo'], 'bar', options);
+		assertEdit(content, edits, '{\n  foo: "bar"\n}');
+
+		edits = modify(content, ['foo', 'foo2'], 'bar', options);
+		assertEdit(content, edits, '{\n  foo: {\n    foo2: "bar"\n  }\n}');
+
+		content = '{\n}';
+		edits = modify(content, ['foo'], 'bar', options);
+		assertEdit(content, edits, '{\n  foo: "bar"\n}');
+
+		content = '  {\n  }';
+		edits = modify(content, ['foo'], 'bar', options);
+		assertEdit(content, edits, '  {\n    foo: "bar"\n  }');
+
+		content = '{\n  x: "y"\n}';
+		edits = modify(content, ['foo'], 'bar', options);
+		assertEdit(content, edits, '{\n  x: "y",\n  foo: "bar"\n}');
+
+		content = '{\n  x: "y"\n}';
+		edits = modify(content, ['e'], 'null', options);
+		assertEdit(content, edits, '{\n  x: "y",\n  e: "null"\n}');
+
+		content = '{\n  x: "y"\n}';
+		edits = modify(content, ['x'], 'bar', options);
+		assertEdit(content, edits, '{\n  x: "bar"\n}');
+
+		content = '{\n  x: {\n    a: 1,\n    b: true\n  }\n}\n';
+		edits = modify(content, ['x', 'c'], 'bar', { formattingOptions, getInsertionIndex: () => 0 });
+		assertEdit(content, edits, '{\n  x: {\n    c: "bar",\n    a: 1,\n    b: true\n  }\n}\n');
+
+		content = '{\n  x: {\n    a: 1,\n    b: true\n  }\n}\n';
+		edits = modify(content, ['x', 'c'], 'bar', { formattingOptions, getInsertionIndex: () => 1 });
+		assertEdit(content, edits, '{\n  x: {\n    a: 1,\n    c: "bar",\n    b: true\n  }\n}\n');
+
+		// the insertion index is clamped to the properties
+		content = '{\n  x: "y"\n}';
+		edits = modify(content, ['foo'], 'bar', { formattingOptions, getInsertionIndex: () => 5 });
+		assertEdit(content, edits, '{\n  x: "y",\n  foo: "bar"\n}');
+		edits = modify(content, ['foo'], 'bar', { formattingOptions, getInsertionIndex: () => -1 });
+		assertEdit(content, edits, '{\n  foo: "bar",\n  x: "y"\n}');
+
+		content = '{\n  x: "y"\n}';
+		edits = modify(content, ['foo'], Infinity, options);
+		assertEdit(content, edits, '{\n  x: "y",\n  foo: Infinity\n}');
+	});
+
+	test('remove property', () => {
+		let content = '{\n  x: "y"\n}';
+		let edits = modify(content, ['x'], undefined, options);
+		assertEdit(content, edits, '{\n}');
+
+		content = '{\n  x: "y", a: []\n}';
+		edits = modify(content, ['x'], undefined, options);
+		assertEdit(content, edits, '{\n  a: []\n}');
+
+		content = '{\n  x: "y", a: []\n}';
+		edits = modify(content, ['a'], undefined, options);
+		assertEdit(content, edits, '{\n  x: "y"\n}');
+
+		content = '{\n  x: "y",\n}';
+		edits = modify(content, ['x'], undefined, options);
+		assertEdit(content, edits, '{\n}');
+
+		content = '{\n  x: "y",\n  a: 1,\n}';
+		edits = modify(content, ['a'], undefined, options);
+		assertEdit(content, edits, '{\n  x: "y",\n}');
+
+		content = '{\n  x: "y"\n}';
+		edits = modify(content, ['z'], undefined, options);
+		assertEdit(content, edits, content);
+	});
+
+	test('set item', () => {
+		let content = '{\n  x: [1, 2, 3],\n  y: 0\n}';
+
+		let edits = modify(content, ['x', 0], 6, options);
+		assertEdit(content, edits, '{\n  x: [6, 2, 3],\n  y: 0\n}');
+
+		edits = modify(content, ['x', 1], 5, options);
+		assertEdit(content, edits, '{\n  x: [1, 5, 3],\n  y: 0\n}');
+
+		edits = modify(content, ['x', 2], 4, options);
+		assertEdit(content, edits, '{\n  x: [1, 2, 4],\n  y: 0\n}');
+
+		edits = modify(content, ['x', 3], 3, options);
+		assertEdit(content, edits, '{\n  x: [\n    1,\n    2,\n    3,\n    3\n  ],\n  y: 0\n}');
+	});
+
+	test('insert item at 0; isArrayInsertion = true', () => {
+		const content = '[\n  2,\n  3\n]';
+		const edits = modify(content, [0], 1, { formattingOptions, isArrayInsertion: true });
+		assertEdit(content, edits, '[\n  1,\n  2,\n  3\n]');
+	});
+
+	test('insert item at 0 in empty array', () => {
+		const content = '[\n]';
+		const edits = modify(content, [0], 1, options);
+		assertEdit(content, edits, '[\n  1\n]');
+	});
+
+	test('insert item at an index; isArrayInsertion = true', () => {
+		const content = '[\n  1,\n  3\n]';
+		const edits = modify(content, [1], 2, { formattingOptions, isArrayInsertion: true });
+		assertEdit(content, edits, '[\n  1,\n  2,\n  3\n]');
+	});
+
+	test('append item', () => {
+		let content = '[\n  1,\n  2\n]';
+		let edits = modify(content, [-1], 3, options);
+		assertEdit(content, edits, '[\n  1,\n  2,\n  3\n]');
+
+		content = '[]';
+		edits = modify(content, [-1], 'x', options);
+		assertEdit(content, edits, '[\n  "x"\n]');
+	});
+
+	test('remove item in array', () => {
+		let content = '[\n  1,\n  2,\n  3\n]';
+		let edits = modify(content, [1], undefined, options);
+		assertEdit(content, edits, '[\n  1,\n  3\n]');
+
+		content = '[\n  1,\n  2,\n  3\n]';
+		edits = modify(content, [2], undefined, options);
+		assertEdit(content, edits, '[\n  1,\n  2\n]');
+
+		content = '[\n  1\n]';
+		edits = modify(content, [0], undefined, options);
+		assertEdit(content, edits, '[\n]');
+
+		content = '[\n  1,\n]';
+		edits = modify(content, [0], undefined, options);
+		assertEdit(content, edits, '[\n]');
+
+		content = '[\n  1,\n  2,\n]';
+		edits = modify(content, [1], undefined, options);
+		assertEdit(content, edits, '[\n  1,\n]');
+	});
+
+	test('preserve comments', () => {
+		let content = '{\n  // the x\n  x: "y", // trailing\n  /* before a */\n  a: 1\n}';
+		let edits = modify(content, ['x'], 'z', options);
+		assertEdit(content, edits, '{\n  // the x\n  x: "z", // trailing\n  /* before a */\n  a: 1\n}');
+
+		edits = modify(content, ['b'], true, options);
+		assertEdit(content, edits, '{\n  // the x\n  x: "y", // trailing\n  /* before a */\n  a: 1,\n  b: true\n}');
+
+		// comments next to a removed property or item are kept
+		content = '{\n  // keep\n  a: 1, // one\n  b: [1, 2],\n}';
+		edits = modify(content, ['b'], undefined, options);
+		assertEdit(content, edits, '{\n  // keep\n  a: 1, // one\n}');
+		edits = modify(content, ['a'], undefined, options);
+		assertEdit(content, edits, '{\n  // keep\n  // one\n  b: [1, 2],\n}');
+
+		content = '{\n  a: 1, // one\n  b: 2 }';
+		edits = modify(content, ['b'], undefined, options);
+		assertEdit(content, edits, '{\n  a: 1 // one\n}');
+
+		content = '{ a: 1, /* one */ b: 2 }';
+		edits = modify(content, ['b'], undefined, {});
+		assertEdit(content, edits, '{ a: 1 /* one */  }');
+
+		content = '{ // c\n  a: 1 }';
+		edits = modify(content, ['a'], undefined, {});
+		assertEdit(content, edits, '{ // c\n   }');
+
+		content = '[\n  1, // one\n  2\n]';
+		edits = modify(content, [1], undefined, options);
+		assertEdit(content, edits, '[\n  1 // one\n]');
+	});
+
+	test('without formatting', () => {
+		const content = '{ x: 1 }';
+		const edits = modify(content, ['y'], [1, 2], {});
+		assert.deepEqual(edits, [{ offset: 6, length: 0, content: ',y: [1,2]' }]);
+	});
+
+	test('apply edits', () => {
+		const content = '{ a: 1, b: 2 }';
+		assert.equal(applyEdits(content, []), content);
+		assert.equal(applyEdits(content, [{ offset: 5, length: 1, content: '3' }, { offset: 2, length: 1, content: 'c' }]), '{ c: 3, b: 2 }');
+
+		// inserts at the same offset are applied in order
+		assert.equal(applyEdits('[]', [{ offset: 1, length: 0, content: '1' }, { offset: 1, length: 0, content: ',2' }]), '[1,2]');
+		assert.equal(applyEdits('[3]', [{ offset: 1, length: 1, content: '2' }, { offset: 1, length: 0, content: '1,' }]), '[1,2]');
+		assert.equal(applyEdits('[4]', [
+			{ offset: 1, length: 0, content: '1,' },
+			{ offset: 1, length: 1, content: '3' },
+			{ offset: 1, length: 0, content: '2,' },
+			{ offset: 0, length: 0, content: '\n' }
+		]), '\n[1,2,3]');
+		const inserts: Edit[] = [];
+		for (let i = 0; i < 20; i++) {
+			inserts.push({ offset: 1, length: 0, content: `${i},` });
+		}
+		assert.equal(applyEdits('[]', inserts), `[${inserts.map(edit => edit.content).join('')}]`);
+	});
+
+	test('apply edits from different sources', () => {
+		const content = '{a:1,b:[1,2]}';
+		const edits = [
+			...modify(content, ['a'], 2, {}),
+			...modify(content, ['b', 1], 3, {})
+		];
+		const modified = applyEdits(content, edits);
+		assert.equal(modified, '{a:2,b:[1,3]}');
+		assert.equal(applyEdits(modified, format(modified, undefined, { tabSize: 2, insertSpaces: true, eol: '\n' })), '{\n  a: 2,\n  b: [\n    1,\n    3\n  ]\n}');
+	});
+
+	test('apply edits: overlapping edits', () => {
+		const content = '{ a: 1, b: 2 }';
+		assert.throws(() => applyEdits(content, [{ offset: 2, length: 4, content: '' }, { offset: 5, length: 1, content: '3' }]), /Overlapping edits at offset 2 with length 4 and at offset 5 with length 1/);
+		assert.throws(() => applyEdits(content, [{ offset: 5, length: 1, content: '3' }, { offset: 5, length: 1, content: '4' }]), /Overlapping edits/);
+		assert.throws(() => applyEdits(content, [{ offset: 12, length: 3, content: '' }]), /out of bounds/);
+	});
+});
@@ -0,0 +1,222 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation. All rights reserved.
+ *  Licensed under the MIT License. See License.txt in the project root for license information.
+ *--------------------------------------------------------------------------------------------*/
+'use strict';
+
+import * as assert from 'assert';
+import { format as computeFormatEdits, FormattingOptions, Range } from '../main';
+
+suite('JSON5 - formatter', () => {
+
+	function format(content: string, expected: string, options: FormattingOptions = { tabSize: 2, insertSpaces: true, eol: '\n' }) {
+		let range: Range | undefined = void 0;
+		const rangeStart = content.indexOf('|');
+		const rangeEnd = content.lastIndexOf('|');
+		if (rangeStart !== -1 && rangeEnd !== -1) {
+			content = content.substring(0, rangeStart) + content.substring(rangeStart + 1, rangeEnd) + content.substring(rangeEnd + 1);
+			range = { offset: rangeStart, length: rangeEnd - rangeStart - 1 };
+		}
+
+		const edits = computeFormatEdits(content, range, options);
+
+		let lastEditOffset = content.length;
+		for (let i = edits.length - 1; i >= 0; i--) {
+			const edit = edits[i];
+			assert(edit.offset >= 0 && edit.length >= 0 && edit.offset + edit.length <= content.length);
+			assert(typeof edit.content === 'string');
+			assert(lastEditOffset >= edit.offset + edit.length); // make sure all edits are ordered
+			lastEditOffset = edit.offset;
+			content = content.substring(0, edit.offset) + edit.content + content.substring(edit.offset + edit.length);
+		}
+
+		assert.equal(content, expected);
+	}
+
+	test('object - single property', () => {
+		const content = [
+			'{"x" : 1}'
+		].join('\n');
+
+		const expected = [
+			'{',
+			'  "x": 1',
+			'}'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('object - multiple properties', () => {
+		const content = [
+			'{"x" : 1,  "y" : "foo", "z"  : true}'
+		].join('\n');
+
+		const expected = [
+			'{',
+			'  "x": 1,',
+			'  "y": "foo",',
+			'  "z": true',
+			'}'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('object - unquoted and single-quoted keys', () => {
+		const content = [
+			"{x : 1,  'y' : 'foo', null:NaN, Infinity :-Infinity}"
+		].join('\n');
+
+		const expected = [
+			'{',
+			'  x: 1,',
+			"  'y': 'foo',",
+			'  null: NaN,',
+			'  Infinity: -Infinity',
+			'}'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('object - trailing comma', () => {
+		const content = [
+			'{a: 1, b: [2, 3,],}'
+		].join('\n');
+
+		const expected = [
+			'{',
+			'  a: 1,',
+			'  b: [',
+			'    2,',
+			'    3,',
+			'  ],',
+			'}'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('empty object and array', () => {
+		format('{ }', '{}');
+		format('[ ]', '[]');
+		format('{a:{ }, b:[ ]}', '{\n  a: {},\n  b: []\n}');
+	});
+
+	test('array - nested', () => {
+		const content = [
+			'[[1, 0x1F], [+.5 , 2.]]'
+		].join('\n');
+
+		const expected = [
+			'[',
+			'  [',
+			'    1,',
+			'    0x1F',
+			'  ],',
+			'  [',
+			'    +.5,',
+			'    2.',
+			'  ]',
+			']'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('tabs', () => {
+		const content = [
+			'{a: [1]}'
+		].join('\n');
+
+		const expected = [
+			'{',
+			'\ta: [',
+			'\t\t1',
+			'\t]',
+			'}'
+		].join('\n');
+
+		format(content, expected, { insertSpaces: false, eol: '\n' });
+	});
+
+	test('eol', () => {
+		format('{a: 1}', '{\r\n  a: 1\r\n}', { tabSize: 2, insertSpaces: true, eol: '\r\n' });
+
+		// the line ending already used in the document wins
+		format('{a: 1,\r\nb: 2}', '{\r\n  a: 1,\r\n  b: 2\r\n}', { tabSize: 2, insertSpaces: true, eol: '\n' });
+	});
+
+	test('insert final newline', () => {
+		format('{a: 1}', '{\n  a: 1\n}\n', { tabSize: 2, insertSpaces: true, eol: '\n', insertFinalNewline: true });
+	});
+
+	test('line comments', () => {
+		const content = [
+			'{ // comment',
+			'a: 1, // one',
+			'// before b',
+			'b: 2',
+			'}'
+		].join('\n');
+
+		const expected = [
+			'{ // comment',
+			'  a: 1, // one',
+			'  // before b',
+			'  b: 2',
+			'}'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('block comments', () => {
+		const content = [
+			'/* header */{a: /* inline */ 1,',
+			'/* multi',
+			'   line */ b: 2}'
+		].join('\n');
+
+		const expected = [
+			'/* header */ {',
+			'  a: /* inline */ 1,',
+			'  /* multi',
+			'   line */ b: 2',
+			'}'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('range', () => {
+		const content = [
+			'{',
+			'  a: {',
+			'    |b:    1,',
+			'  c:   2|',
+			'  },',
+			'  d: 3',
+			'}'
+		].join('\n');
+
+		const expected = [
+			'{',
+			'  a: {',
+			'    b: 1,',
+			'    c: 2',
+			'  },',
+			'  d: 3',
+			'}'
+		].join('\n');
+
+		format(content, expected);
+	});
+
+	test('invalid content', () => {
+		// the space between tokens with a missing comma is left alone
+		format('{a: 1 b: 2}', '{\n  a: 1 b: 2\n}');
+		format('{"a: 1}', '{"a: 1}');
+	});
+});
@@ -8,11 +8,18 @@ import * as assert from 'assert';
 import {
 	SyntaxKind,
 	createScanner,
+	createLineScanner,
+	LineScanState,
 	parse,
+	parseAll,
 	getLocation,
 	Node,
+	NodeComment,
 	ParseError,
 	parseTree,
+	updateTree,
+	applyEdits,
+	Edit,
 	ParseErrorCode,
 	ParseOptions,
 	Segment,
@@ -25,22 +32,28 @@ import {
 	printSyntaxKind,
 	printScanError,
 	printParseErrorCode,
+	printLineScanState,
+	stripComments,
+	stringify,
 } from '../main';
-import * as JSON5 from 'json5';
 
 function printKinds(kinds: SyntaxKind[]): string {
-	return JSON5.stringify(kinds.map(printSyntaxKind));
+	return stringify(kinds.map(printSyntaxKind))!;
+}
+
+function repeat(s: string, count: number): string {
+	return new Array(count + 1).join(s);
 }
 
 function printVisitorErrors(errors: VisitorError[]): string {
-	return JSON5.stringify(
+	return stringify(
 		errors.map(error => {
 			return {
 				...error,
 				error: printParseErrorCode(error.error)
 			};
 		})
-	);
+	)!;
 }
 
 function assertKinds(text: string, ...kinds: [SyntaxKind, ...SyntaxKind[]]): void {
@@ -101,9 +114,9 @@ function assertValidParse(input: string, expected: any, options?: ParseOptions):
 	const friendlyErrors = errors.map(error => {
 		return { ...error, type: printParseErrorCode(error.error) };
 	});
-	assert.deepEqual(errors, [], `errors occurred when parsing \`${input}\`: ${JSON5.stringify(friendlyErrors)}`);
+	assert.deepEqual(errors, [], `errors occurred when parsing \`${input}\`: ${stringify(friendlyErrors)}`);
 	if (!(Number.isNaN(actual) && Number.isNaN(expected))) {
-		assert.deepEqual(actual, expected, `parse result of \`${input}\` was ${JSON5.stringify(actual)}, expected ${JSON5.stringify(expected)}`);
+		assert.deepEqual(actual, expected, `parse result of \`${input}\` was ${stringify(actual)}, expected ${stringify(expected)}`);
 	}
 }
 
@@ -112,14 +125,14 @@ function assertInvalidParse(input: string, expected: any, options?: ParseOptions
 	var actual = parse(input, errors, options);
 
 	assert(errors.length > 0, `parse result of \`${input}\` had no errors, expected an error`);
-	assert.deepEqual(actual, expected, `parse result of \`${input}\` was ${JSON5.stringify(actual)}, expected ${JSON5.stringify(expected)} (with errors)`);
+	assert.deepEqual(actual, expected, `parse result of \`${input}\` was ${stringify(actual)}, expected ${stringify(expected)} (with errors)`);
 }
 
 function assertTree(input: string, expected: any, expectedErrors: ParseError[] = []): void {
 	var errors: ParseError[] = [];
 	var actual = parseTree(input, errors);
 
-	assert.deepEqual(errors, expectedErrors, `parse tree had unexpected errors, expected ${JSON5.stringify(expectedErrors)} but got ${JSON5.stringify(errors)}`);
+	assert.deepEqual(errors, expectedErrors, `parse tree had unexpected errors, expected ${stringify(expectedErrors)} but got ${stringify(errors)}`);
 	let checkParent = (node: Node) => {
 		if (node.children) {
 			for (let child of node.children) {
@@ -131,7 +144,7 @@ function assertTree(input: string, expected: any, expectedErrors: ParseError[] =
 	};
 	checkParent(actual);
 
-	assert.deepEqual(actual, expected, `parse tree was not correct, was ${JSON5.stringify(actual)} but expected ${JSON5.stringify(expected)}`);
+	assert.deepEqual(actual, expected, `parse tree was not correct, was ${stringify(actual)} but expected ${stringify(expected)}`);
 }
 
 interface VisitorCallback {
@@ -141,10 +154,7 @@ interface VisitorCallback {
 	startCharacter: number;
 	arg?: any;
 };
-interface VisitorError extends ParseError {
-	startLine: number;
-	startCharacter: number;
-}
+type VisitorError = Pick<ParseError, 'error' | 'offset' | 'length' | 'startLine' | 'startCharacter'>;
 
 function assertVisit(input: string, expected: VisitorCallback[], expectedErrors: VisitorError[] = []): void {
 	let errors: VisitorError[] = [];
@@ -166,7 +176,18 @@ function assertVisit(input: string, expected: VisitorCallback[], expectedErrors:
 	});
 
 	assert.deepEqual(errors, expectedErrors, `visitor did not get expected errors, was ${printVisitorErrors(errors)} but expected ${printVisitorErrors(expectedErrors)}`);
-	assert.deepEqual(actuals, expected, `visitor did not get expected callbacks, was ${JSON5.stringify(actuals)} but expected ${JSON5.stringify(expected)}`);
+	assert.deepEqual(actuals, expected, `visitor did not get expected callbacks, was ${stringify(actuals)} but expected ${stringify(expected)}`);
+}
+
+function assertVisitErrors(input: string, expectedErrors: VisitorError[], options?: ParseOptions): void {
+	const errors: VisitorError[] = [];
+	visit(input, {
+		onError: (error: ParseErrorCode, offset: number, length: number, startLine: number, startCharacter: number) => {
+			errors.push({ error, offset, length, startLine, startCharacter });
+		}
+	}, options);
+
+	assert.deepEqual(errors, expectedErrors, `visitor did not get expected errors for \`${input}\`, was ${printVisitorErrors(errors)} but expected ${printVisitorErrors(expectedErrors)}`);
 }
 
 function assertNodeAtLocation(input: Node, segments: Segment[], expected: any) {
@@ -185,7 +206,7 @@ function assertLocation(input: string, expectedSegments: Segment[], expectedNode
 	const correctedInput = input.substring(0, offset) + input.substring(offset + 1, input.length);
 	var actual = getLocation(correctedInput, offset);
 	assert(actual);
-	assert.deepEqual(actual.path, expectedSegments, `path was not correct for \`${input}\`, got ${JSON5.stringify(actual.path)} but expected ${JSON5.stringify(expectedSegments)}`);
+	assert.deepEqual(actual.path, expectedSegments, `path was not correct for \`${input}\`, got ${stringify(actual.path)} but expected ${stringify(expectedSegments)}`);
 	assert.equal(actual.previousNode && actual.previousNode.type, expectedNodeType, `type was not correct for \`${input}\`, got ${actual.previousNode && actual.previousNode.type} but expected ${expectedNodeType}`);
 	assert.equal(actual.isAtPropertyKey, expectedCompleteProperty, expectedCompleteProperty ? `expected complete property for \`${input}\` but location was not at property key` :  `did not expect complete property for \`${input}\` but location was at property key`);
 }
@@ -532,7 +553,7 @@ suite('JSON', () => {
 					], colonOffset: 37
 				}
 			]
-		}, [{ error: ParseErrorCode.ColonExpected, offset: 49, length: 1 }])
+		}, [{ error: ParseErrorCode.ColonExpected, offset: 49, length: 1, startLine: 0, startCharacter: 49, endLine: 0, endCharacter: 50 }])
 	});
 
 	test('tree: find location', () => {
@@ -675,12 +696,12 @@ suite('JSON5', () => {
 
 		// invalid hex
 		assertKinds('.0x1', SyntaxKind.NumericLiteral, SyntaxKind.Identifier);
-		assertKinds('-0x', SyntaxKind.NumericLiteral, SyntaxKind.Identifier);
-		assertKinds('-0XG', SyntaxKind.NumericLiteral, SyntaxKind.Identifier);
+		assertScanError('-0x', ScanError.MissingHexDigits, SyntaxKind.NumericLiteral);
+		assertScanError('-0XG', ScanError.MissingHexDigits, SyntaxKind.NumericLiteral, SyntaxKind.Identifier);
 		assertKinds('0xfff.', SyntaxKind.NumericLiteral, SyntaxKind.Unknown);
 
 		// extra decimal
-		assertKinds('.1.', SyntaxKind.NumericLiteral, SyntaxKind.Unknown);
+		assertScanError('.1.', ScanError.MultipleDecimalPoints, SyntaxKind.NumericLiteral);
 	});
 
 	test('identifiers', () => {
@@ -837,7 +858,7 @@ suite('JSON5', () => {
 			offset: 0,
 			length: 25,
 			value: -0x0123456789abcdefabcdef
-		});
+		}, [{ error: ParseErrorCode.PrecisionLoss, offset: 0, length: 25, startLine: 0, startCharacter: 0, endLine: 0, endCharacter: 25 }]);
 		assertTree('+1.93e-19', { type: 'number', offset: 0, length: 9, value: +1.93e-19 });
 		assertTree("'hello'", { type: 'string', offset: 0, length: 7, value: 'hello' });
 	});
@@ -938,8 +959,8 @@ suite('JSON5', () => {
 				]
 			},
 			[
-				{ error: ParseErrorCode.PropertyNameExpected, offset: 25, length: 1 },
-				{ error: ParseErrorCode.ValueExpected, offset: 25, length: 1 }
+				{ error: ParseErrorCode.PropertyNameExpected, offset: 25, length: 1, startLine: 0, startCharacter: 25, endLine: 0, endCharacter: 26 },
+				{ error: ParseErrorCode.ValueExpected, offset: 25, length: 1, startLine: 0, startCharacter: 25, endLine: 0, endCharacter: 26 }
 			]
 		);
 
@@ -1061,4 +1082,646 @@ suite('JSON5', () => {
 			{ id: 'onArrayEnd', text: ']', startLine: 4, startCharacter: 0 }
 		]);
 	});
+
+	test('strip comments', () => {
+		assert.equal(stripComments('{ a: 1 }'), '{ a: 1 }');
+		assert.equal(stripComments('// header\n{ a: 1, /* b */ "c": "// not a comment", \'d\': \'/* nor this */\' }'), '\n{ a: 1,  "c": "// not a comment", \'d\': \'/* nor this */\' }');
+		assert.equal(stripComments('[1, /* one\r\n two */ 2] // end', ' '), '[1,       \r\n        2]       ');
+		assert.equal(stripComments('[1, /* two\u2028three */ 3]', '*'), '[1, ******\u2028******** 3]');
+		assert.equal(stripComments('[1 /* unterminated', ' '), '[1                ');
+	});
+
+	test('dialects: json5 syntax', () => {
+		const input = "{ a: 'b', \"c\": [+1, 0x1F, .5, 5., Infinity, -NaN], }";
+		assertVisitErrors(input, []);
+		assertVisitErrors(input, [], { dialect: 'json5' });
+
+		const json5SyntaxErrors: VisitorError[] = [
+			{ error: ParseErrorCode.UnquotedPropertyName, offset: 2, length: 1, startLine: 0, startCharacter: 2 },
+			{ error: ParseErrorCode.SingleQuotedString, offset: 5, length: 3, startLine: 0, startCharacter: 5 },
+			{ error: ParseErrorCode.LeadingPlusSign, offset: 16, length: 1, startLine: 0, startCharacter: 16 },
+			{ error: ParseErrorCode.HexadecimalNumber, offset: 20, length: 4, startLine: 0, startCharacter: 20 },
+			{ error: ParseErrorCode.LeadingOrTrailingDecimalPoint, offset: 26, length: 1, startLine: 0, startCharacter: 26 },
+			{ error: ParseErrorCode.LeadingOrTrailingDecimalPoint, offset: 31, length: 1, startLine: 0, startCharacter: 31 },
+			{ error: ParseErrorCode.NonFiniteNumber, offset: 34, length: 8, startLine: 0, startCharacter: 34 },
+			{ error: ParseErrorCode.NonFiniteNumber, offset: 44, length: 4, startLine: 0, startCharacter: 44 }
+		];
+		assertVisitErrors(input, json5SyntaxErrors, { dialect: 'jsonc' });
+		assertVisitErrors(input, [
+			...json5SyntaxErrors,
+			{ error: ParseErrorCode.TrailingComma, offset: 49, length: 1, startLine: 0, startCharacter: 49 }
+		], { dialect: 'json' });
+
+		assertVisitErrors('[+Infinity, -0x1, 1.5e3, -0.5]', [
+			{ error: ParseErrorCode.LeadingPlusSign, offset: 1, length: 1, startLine: 0, startCharacter: 1 },
+			{ error: ParseErrorCode.NonFiniteNumber, offset: 1, length: 9, startLine: 0, startCharacter: 1 },
+			{ error: ParseErrorCode.HexadecimalNumber, offset: 12, length: 4, startLine: 0, startCharacter: 12 }
+		], { dialect: 'json' });
+	});
+
+	test('dialects: strings', () => {
+		assertVisitErrors('["\\"\\\\\\/\\b\\f\\n\\r\\t\\u00DC"]', [], { dialect: 'json' });
+		assertVisitErrors('["\\x41\\v\\0", "\\\'"]', [
+			{ error: ParseErrorCode.InvalidEscapeSequence, offset: 2, length: 2, startLine: 0, startCharacter: 2 },
+			{ error: ParseErrorCode.InvalidEscapeSequence, offset: 6, length: 2, startLine: 0, startCharacter: 6 },
+			{ error: ParseErrorCode.InvalidEscapeSequence, offset: 8, length: 2, startLine: 0, startCharacter: 8 },
+			{ error: ParseErrorCode.InvalidEscapeSequence, offset: 14, length: 2, startLine: 0, startCharacter: 14 }
+		], { dialect: 'json' });
+		assertVisitErrors('[0,\n "a\\\nb\\\r\nc\\x41"]', [
+			{ error: ParseErrorCode.LineContinuation, offset: 7, length: 2, startLine: 1, startCharacter: 3 },
+			{ error: ParseErrorCode.LineContinuation, offset: 10, length: 3, startLine: 2, startCharacter: 1 },
+			{ error: ParseErrorCode.InvalidEscapeSequence, offset: 14, length: 2, startLine: 3, startCharacter: 1 }
+		], { dialect: 'jsonc' });
+	});
+
+	test('dialects: comments and trailing commas', () => {
+		const input = '// a\n{ "b": [1, /* c */ 2,], }';
+		assertVisitErrors(input, [], { dialect: 'jsonc' });
+		assertVisitErrors(input, [
+			{ error: ParseErrorCode.InvalidCommentToken, offset: 0, length: 4, startLine: 0, startCharacter: 0 },
+			{ error: ParseErrorCode.InvalidCommentToken, offset: 16, length: 7, startLine: 1, startCharacter: 11 },
+			{ error: ParseErrorCode.TrailingComma, offset: 25, length: 1, startLine: 1, startCharacter: 20 },
+			{ error: ParseErrorCode.TrailingComma, offset: 27, length: 1, startLine: 1, startCharacter: 22 }
+		], { dialect: 'json' });
+
+		assertValidParse('{ "a": [1, 2] }', { a: [1, 2] }, { dialect: 'json' });
+		assertInvalidParse('{ a: [1, 2,] }', { a: [1, 2] }, { dialect: 'json' });
+	});
+
+	test('feature toggles', () => {
+		const input = '/* a */ { b: 1, "c": [2,], }';
+		const commentError: VisitorError = { error: ParseErrorCode.InvalidCommentToken, offset: 0, length: 7, startLine: 0, startCharacter: 0 };
+		const trailingCommaErrors: VisitorError[] = [
+			{ error: ParseErrorCode.TrailingComma, offset: 23, length: 1, startLine: 0, startCharacter: 23 },
+			{ error: ParseErrorCode.TrailingComma, offset: 25, length: 1, startLine: 0, startCharacter: 25 }
+		];
+		const unquotedKeyError: VisitorError = { error: ParseErrorCode.UnquotedPropertyName, offset: 10, length: 1, startLine: 0, startCharacter: 10 };
+
+		assertVisitErrors(input, [commentError], { disallowComments: true });
+		assertVisitErrors(input, trailingCommaErrors, { disallowTrailingComma: true });
+		assertVisitErrors(input, [unquotedKeyError], { disallowUnquotedKeys: true });
+		assertVisitErrors(input, [commentError, unquotedKeyError, ...trailingCommaErrors], { disallowComments: true, disallowTrailingComma: true, disallowUnquotedKeys: true });
+
+		// toggles narrow the dialect further
+		assertVisitErrors(input, [unquotedKeyError], { dialect: 'jsonc' });
+		assertVisitErrors(input, [unquotedKeyError, ...trailingCommaErrors], { dialect: 'jsonc', disallowTrailingComma: true });
+
+		assertInvalidParse('{ null: true }', { null: true }, { disallowUnquotedKeys: true });
+		assertValidParse('{ "null": true }', { null: true }, { disallowUnquotedKeys: true });
+	});
+
+	test('duplicate keys', () => {
+		const input = "{ a: 1, 'b': { a: 2 }, \"a\": 3, b: [4], a: { c: 5 } }";
+		assertValidParse(input, { a: { c: 5 }, b: [4] });
+		assertValidParse(input, { a: { c: 5 }, b: [4] }, { duplicateKeys: 'lastWins' });
+		assertValidParse(input, { a: 1, b: { a: 2 } }, { duplicateKeys: 'firstWins' });
+		assertInvalidParse(input, { a: { c: 5 }, b: [4] }, { duplicateKeys: 'error' });
+
+		assertVisitErrors(input, [
+			{ error: ParseErrorCode.DuplicateKey, offset: 23, length: 3, startLine: 0, startCharacter: 23 },
+			{ error: ParseErrorCode.DuplicateKey, offset: 31, length: 1, startLine: 0, startCharacter: 31 },
+			{ error: ParseErrorCode.DuplicateKey, offset: 39, length: 1, startLine: 0, startCharacter: 39 }
+		], { duplicateKeys: 'error' });
+		assertVisitErrors('[{ a: 1 }, { a: 2 }]', [], { duplicateKeys: 'error' });
+		assertVisitErrors('{ constructor: 1, __proto__: 2 }', [], { duplicateKeys: 'error' });
+
+		const errors: ParseError[] = [];
+		parseTree('{ a: 1, a: 2 }', errors, { duplicateKeys: 'error' });
+		assert.deepEqual(errors, [{ error: ParseErrorCode.DuplicateKey, offset: 8, length: 1, startLine: 0, startCharacter: 8, endLine: 0, endCharacter: 9 }]);
+	});
+
+	test('parse: prototype keys', () => {
+		const result = parse('{ "__proto__": { "polluted": true }, a: { __proto__: [] } }');
+		assert.equal(Object.getPrototypeOf(result), Object.prototype);
+		assert.equal(Object.getPrototypeOf(result.a), Object.prototype);
+		assert.equal(({} as any).polluted, undefined);
+		assert.equal(result.polluted, undefined);
+		assert.deepEqual(Object.keys(result), ['__proto__', 'a']);
+		assert.deepEqual(Object.getOwnPropertyDescriptor(result, '__proto__'), { value: { polluted: true }, writable: true, enumerable: true, configurable: true });
+		assert.deepEqual(Object.getOwnPropertyDescriptor(result.a, '__proto__')!.value, []);
+
+		const nullPrototypeResult = parse('{ a: { __proto__: 1 }, b: [{}] }', [], { nullPrototype: true });
+		assert.equal(Object.getPrototypeOf(nullPrototypeResult), null);
+		assert.equal(Object.getPrototypeOf(nullPrototypeResult.a), null);
+		assert.equal(Object.getPrototypeOf(nullPrototypeResult.b[0]), null);
+		assert.deepEqual(Object.keys(nullPrototypeResult.a), ['__proto__']);
+		assert.equal(nullPrototypeResult.a.__proto__, 1);
+
+		assertVisitErrors('{ __proto__: {}, "constructor": { prototype: 1 }, proto: 2 }', [
+			{ error: ParseErrorCode.PrototypeKey, offset: 2, length: 9, startLine: 0, startCharacter: 2 },
+			{ error: ParseErrorCode.PrototypeKey, offset: 17, length: 13, startLine: 0, startCharacter: 17 }
+		], { disallowPrototypeKeys: true });
+		assertVisitErrors('{ __proto__: {}, "constructor": 1 }', []);
+	});
+
+	test('limits', () => {
+		const deeplyNested = repeat('[', 100000) + repeat(']', 100000);
+		assertVisitErrors(deeplyNested, [
+			{ error: ParseErrorCode.LimitExceeded, offset: 64, length: 1, startLine: 0, startCharacter: 64 }
+		], { maxDepth: 64 });
+		assertValidParse('[[{ a: [] }]]', [[{ a: [] }]], { maxDepth: 4 });
+		assertVisitErrors('[[{ a: [] }]]', [
+			{ error: ParseErrorCode.LimitExceeded, offset: 7, length: 1, startLine: 0, startCharacter: 7 }
+		], { maxDepth: 3 });
+
+		assertValidParse(`["${repeat('a', 100000)}"]`, [repeat('a', 100000)]);
+		assertValidParse(`/*${repeat('*', 100000)}*/ 1`, 1);
+		assertValidParse('{ "ab": "cd" }', { ab: 'cd' }, { maxStringLength: 4 });
+		assertVisitErrors('{ "ab": "cde" }', [
+			{ error: ParseErrorCode.LimitExceeded, offset: 8, length: 5, startLine: 0, startCharacter: 8 }
+		], { maxStringLength: 4 });
+		assertVisitErrors('{ "abc": 1 }', [
+			{ error: ParseErrorCode.LimitExceeded, offset: 2, length: 5, startLine: 0, startCharacter: 2 }
+		], { maxStringLength: 4 });
+
+		assertValidParse('[1, 2]', [1, 2], { maxTokens: 6 });
+		assertVisitErrors('[1, 2]', [
+			{ error: ParseErrorCode.LimitExceeded, offset: 5, length: 1, startLine: 0, startCharacter: 5 }
+		], { maxTokens: 5 });
+
+		assertValidParse('[1, 2]', [1, 2], { maxDocumentLength: 6 });
+		assertVisitErrors('[1, 2]', [
+			{ error: ParseErrorCode.LimitExceeded, offset: 0, length: 6, startLine: 0, startCharacter: 0 }
+		], { maxDocumentLength: 5 });
+
+		// the tree of a document which exceeded a limit contains the values parsed so far
+		const errors: ParseError[] = [];
+		const tree = parseTree('{ a: [1, 2, 3] }', errors, { maxTokens: 10 });
+		assert.deepEqual(errors, [{ error: ParseErrorCode.LimitExceeded, offset: 10, length: 1, startLine: 0, startCharacter: 10, endLine: 0, endCharacter: 11 }]);
+		assert.deepEqual(getNodeValue(tree), { a: [1, 2] });
+		assert.strictEqual(tree.length, 16);
+		assert.deepEqual(parse('[1, [2, 3]]', [], { maxTokens: 7 }), [1, [2]]);
+	});
+
+	test('parse: reviver', () => {
+		const text = '{ a: [1, "2"], b: { c: null } }';
+		const calls: any[] = [];
+		const result = parse(text, [], {
+			reviver: (key, value, path, node) => {
+				calls.push([key, path, node!.type, node!.offset, node!.length]);
+				return typeof value === 'number' ? value * 10 : value;
+			}
+		});
+		assert.deepEqual(result, { a: [10, '2'], b: { c: null } });
+		assert.deepEqual(calls, [
+			['0', ['a', 0], 'number', 6, 1],
+			['1', ['a', 1], 'string', 9, 3],
+			['a', ['a'], 'array', 5, 8],
+			['c', ['b', 'c'], 'null', 23, 4],
+			['b', ['b'], 'object', 18, 11],
+			['', [], 'object', 0, 31]
+		]);
+
+		// like JSON.parse: undefined removes the value, and the holder is `this`
+		const holders: any[] = [];
+		const revived = parse('{ a: 1, b: [1, 2], __proto__: "x" }', [], {
+			reviver: function (this: any, key, value) {
+				holders.push(this);
+				return key === 'a' || key === '0' ? undefined : value === 'x' ? {} : value;
+			}
+		});
+		assert.deepEqual(Object.keys(revived), ['b', '__proto__']);
+		assert.equal(revived.b.length, 2);
+		assert.ok(!(0 in revived.b));
+		assert.equal(Object.getPrototypeOf(revived), Object.prototype);
+		assert.strictEqual(holders[1], revived.b);
+		assert.deepEqual(holders[holders.length - 1], { '': revived });
+		assert.deepEqual(JSON.parse('{ "a": 1, "b": [1, 2] }', (key, value) => key === 'a' || key === '0' ? undefined : value), { b: [, 2] });
+
+		// values which are ignored because of duplicate keys are not revived
+		const keys: string[] = [];
+		parse('{ a: 1, a: [2] }', [], { duplicateKeys: 'firstWins', reviver: (key, value) => { keys.push(key); return value; } });
+		assert.deepEqual(keys, ['a', '']);
+
+		// errors thrown by the reviver can point at the value
+		assert.throws(() => parse('{\n  size: "12 parsecs"\n}', [], {
+			reviver: (key, value, path, node) => {
+				if (key === 'size') {
+					throw new Error(`invalid size at ${path.join('.')}, offset ${node!.offset}`);
+				}
+				return value;
+			}
+		}), /invalid size at size, offset 10/);
+	});
+
+	test('parse: big numbers', () => {
+		const text = '[9007199254740991, 9007199254740993, -0x20000000000001, 0x1000000000000000, 1152921504606846976, 1e30, 0.1]';
+		assertValidParse(text, [9007199254740991, 9007199254740992, -9007199254740992, 1152921504606846976, 1152921504606846976, 1e30, 0.1], { bigNumbers: 'number' });
+		assertValidParse('100000000000000000000000', 1e23, { bigNumbers: 'number' });
+		assertValidParse('10000000000000000000000', 1e22);
+		assertValidParse(text, [9007199254740991, '9007199254740993', '-0x20000000000001', 1152921504606846976, 1152921504606846976, 1e30, 0.1], { bigNumbers: 'string' });
+		assertValidParse(text, [9007199254740991, 'big 9007199254740993', 'big -0x20000000000001', 1152921504606846976, 1152921504606846976, 1e30, 0.1], { bigNumbers: lexeme => 'big ' + lexeme });
+
+		const result = parse('[9007199254740993, -0x20000000000001, +18446744073709551615, 1]', [], { bigNumbers: 'bigint' });
+		assert.deepEqual(result.map((value: any) => typeof value), ['bigint', 'bigint', 'bigint', 'number']);
+		assert.deepEqual(result.map(String), ['9007199254740993', '-9007199254740993', '18446744073709551615', '1']);
+		assert.equal(parseTree('9007199254740993', [], { bigNumbers: 'bigint' }).type, 'number');
+		const types: string[] = [];
+		parse('[9007199254740993, "x"]', [], { bigNumbers: 'string', reviver: (key, value, path, node) => { types.push(node!.type); return value; } });
+		assert.deepEqual(types, ['number', 'string', 'array']);
+
+		assertVisitErrors('{ id: 9007199254740993, hex: 0xFFFFFFFFFFFFFFFF, exact: 0x10000000000000000 }', [
+			{ error: ParseErrorCode.PrecisionLoss, offset: 6, length: 16, startLine: 0, startCharacter: 6 },
+			{ error: ParseErrorCode.PrecisionLoss, offset: 29, length: 18, startLine: 0, startCharacter: 29 }
+		]);
+	});
+
+	test('tree: literal style', () => {
+		const tree = parseTree(`{ a: 'x', "b": [+0x1F, .5, 5., -Infinity, 1e3, true, null] }`, [], { literalStyle: true });
+		const [a, b] = tree.children!;
+		assert.deepEqual([a.children![0].raw, a.children![0].quote], ['a', undefined]);
+		assert.deepEqual([a.children![1].raw, a.children![1].quote], [`'x'`, `'`]);
+		assert.deepEqual([b.children![0].raw, b.children![0].quote], ['"b"', '"']);
+		const values = b.children![1].children!;
+		assert.deepEqual(values.map(node => node.raw), ['+0x1F', '.5', '5.', '-Infinity', '1e3', 'true', 'null']);
+		assert.deepEqual(values.map(node => node.numberFormat), [
+			{ sign: '+', hexadecimal: true, leadingDecimalPoint: false, trailingDecimalPoint: false },
+			{ sign: '', hexadecimal: false, leadingDecimalPoint: true, trailingDecimalPoint: false },
+			{ sign: '', hexadecimal: false, leadingDecimalPoint: false, trailingDecimalPoint: true },
+			{ sign: '-', hexadecimal: false, leadingDecimalPoint: false, trailingDecimalPoint: false },
+			{ sign: '', hexadecimal: false, leadingDecimalPoint: false, trailingDecimalPoint: false },
+			undefined,
+			undefined
+		]);
+		assert.equal(b.children![1].raw, undefined);
+
+		// big numbers kept as strings are still described as numbers
+		const bigNumber = parseTree('9007199254740993', [], { literalStyle: true, bigNumbers: 'string' });
+		assert.deepEqual([bigNumber.type, bigNumber.value, bigNumber.quote, bigNumber.numberFormat!.sign], ['number', '9007199254740993', undefined, '']);
+		const objectTree = parseTree('{a: 12345678901234567890}', [], { bigNumbers: s => ({ big: s }) });
+		assert.strictEqual(objectTree.children![0].children![1].type, 'number');
+		assert.deepEqual(getNodeValue(objectTree), { a: { big: '12345678901234567890' } });
+
+		assert.equal(parseTree('"x"').raw, undefined);
+	});
+
+	test('tree: comments', () => {
+		const text = [
+			'// header',
+			'{',
+			'  // the name',
+			'  name: "x", // trailing',
+			'  /* a',
+			'     list */ list: [',
+			'    1, /* one */ 2, // two',
+			'    // end of list',
+			'  ],',
+			'  empty: { /* nothing */ },',
+			'}',
+			'// footer'
+		].join('\n');
+		const tree = parseTree(text, [], { attachComments: true });
+		const texts = (comments?: NodeComment[]) => comments && comments.map(comment => comment.text);
+		assert.deepEqual(texts(tree.leadingComments), [' header']);
+		assert.deepEqual(texts(tree.trailingComments), [' footer']);
+		const [name, list, empty] = tree.children!;
+		assert.deepEqual(texts(name.leadingComments), [' the name']);
+		assert.deepEqual(texts(name.trailingComments), [' trailing']);
+		assert.deepEqual(texts(list.leadingComments), [' a\n     list ']);
+		assert.equal(list.trailingComments, undefined);
+		const [one, two] = list.children![1].children!;
+		assert.equal(one.trailingComments, undefined);
+		assert.deepEqual(texts(two.leadingComments), [' one ']);
+		assert.deepEqual(texts(two.trailingComments), [' two', ' end of list']);
+		assert.deepEqual(texts(empty.children![1].trailingComments), [' nothing ']);
+		assert.equal(empty.children![0].leadingComments, undefined);
+
+		const comments = name.leadingComments!.concat(list.leadingComments!);
+		assert.deepEqual(comments.map(comment => [comment.kind, comment.offset, comment.length]), [['line', 14, 11], ['block', 53, 17]]);
+
+		assert.equal(parseTree(text).leadingComments, undefined);
+	});
+
+	test('decoded literals', () => {
+		function scanValue(text: string): string {
+			const scanner = createScanner(text);
+			scanner.scan();
+			assert.equal(scanner.getTokenError(), ScanError.None);
+			return scanner.getTokenValue();
+		}
+		assert.equal(scanValue('"a\\nb"'), 'a\nb');
+		assert.equal(scanValue(`'\\x41\\u00DC\\0\\q\\"\\\n\\\r\n.'`), 'A\u00DC\0q".');
+		assert.equal(scanValue('\\u0061b\\u0063'), 'abc');
+		assert.equal(scanValue('-0x1F'), '-0x1F');
+
+		assertValidParse('{ \\u0061bc: "\\u0064\\x65f" }', { abc: 'def' });
+		// the strict comparison tells NaN and -0 apart on every version of Node.js
+		const errors: ParseError[] = [];
+		assert.deepStrictEqual(parse('[-0x1F, +.5, 5., -Infinity, NaN, -0]', errors), [-31, 0.5, 5, -Infinity, NaN, -0]);
+		assert.deepEqual(errors, []);
+		assert.ok(Object.is(parse('-0'), -0));
+	});
+
+	test('invalid escape sequences', () => {
+		const scanner = createScanner('"\\1"');
+		assert.equal(scanner.scan(), SyntaxKind.StringLiteral);
+		assert.equal(scanner.getTokenError(), ScanError.InvalidEscapeCharacter);
+		assert.equal(scanner.scan(), SyntaxKind.EOF);
+
+		assertVisitErrors('["a\\x4g", "\\u12", "\\1", "\\01"]', [
+			{ error: ParseErrorCode.InvalidHexEscape, offset: 3, length: 3, startLine: 0, startCharacter: 3 },
+			{ error: ParseErrorCode.InvalidUnicodeEscape, offset: 11, length: 4, startLine: 0, startCharacter: 11 },
+			{ error: ParseErrorCode.InvalidEscapeSequence, offset: 19, length: 2, startLine: 0, startCharacter: 19 },
+			{ error: ParseErrorCode.InvalidEscapeSequence, offset: 25, length: 2, startLine: 0, startCharacter: 25 }
+		]);
+		assertInvalidParse('["a\\x4g", "\\u12", "\\1", "\\01"]', ['ag', '', '', '1']);
+		assertVisitErrors('[\n  "a\\\n\\x"]', [
+			{ error: ParseErrorCode.InvalidHexEscape, offset: 8, length: 2, startLine: 2, startCharacter: 0 }
+		]);
+		assertVisitErrors('{ \\u0020a: 1 }', [
+			{ error: ParseErrorCode.InvalidEscapeSequence, offset: 2, length: 6, startLine: 0, startCharacter: 2 }
+		]);
+
+		// reported once, even though JSON doesn't have the escape sequence either
+		assertVisitErrors('"\\x4"', [
+			{ error: ParseErrorCode.InvalidHexEscape, offset: 1, length: 3, startLine: 0, startCharacter: 1 }
+		], { dialect: 'json' });
+	});
+
+
+	test('specific errors', () => {
+		assertScanError('"\\x4g"', ScanError.InvalidHexEscape, SyntaxKind.StringLiteral);
+		assertScanError('"\\u12"', ScanError.InvalidUnicodeEscape, SyntaxKind.StringLiteral);
+		assertScanError('0x', ScanError.MissingHexDigits, SyntaxKind.NumericLiteral);
+		assertScanError('1.2.3', ScanError.MultipleDecimalPoints, SyntaxKind.NumericLiteral);
+		assertScanError('1..e5', ScanError.MultipleDecimalPoints, SyntaxKind.NumericLiteral);
+		assertKinds('1.2e5.3', SyntaxKind.NumericLiteral, SyntaxKind.NumericLiteral);
+
+		assertVisitErrors('[0x, -0X, 1.2.3, .5.]', [
+			{ error: ParseErrorCode.MissingHexDigits, offset: 1, length: 2, startLine: 0, startCharacter: 1 },
+			{ error: ParseErrorCode.MissingHexDigits, offset: 6, length: 2, startLine: 0, startCharacter: 6 },
+			{ error: ParseErrorCode.MultipleDecimalPoints, offset: 13, length: 2, startLine: 0, startCharacter: 13 },
+			{ error: ParseErrorCode.MultipleDecimalPoints, offset: 19, length: 1, startLine: 0, startCharacter: 19 }
+		]);
+		assertInvalidParse('[0x, 1.2.3]', [0, 0]);
+		assertVisitErrors('[0x]', [
+			{ error: ParseErrorCode.MissingHexDigits, offset: 1, length: 2, startLine: 0, startCharacter: 1 }
+		], { dialect: 'json' });
+
+		// line separators are line terminators in JSON5, but not in JSON
+		assertVisitErrors('[1,\u20282\u2029]', [
+			{ error: ParseErrorCode.UnexpectedLineSeparator, offset: 3, length: 1, startLine: 0, startCharacter: 3 },
+			{ error: ParseErrorCode.UnexpectedLineSeparator, offset: 5, length: 1, startLine: 1, startCharacter: 1 }
+		], { dialect: 'json' });
+		assertVisitErrors('[1,\u20282\u2029]', []);
+		assertVisitErrors('["\u2028"]', [], { dialect: 'json' });
+
+		// whitespace and unescaped control characters which only JSON5 allows
+		assertVisitErrors('\uFEFF[1,\u00A02,\v\f3\uFEFF,\t\u30004]', [
+			{ error: ParseErrorCode.InvalidWhitespace, offset: 4, length: 1, startLine: 0, startCharacter: 4 },
+			{ error: ParseErrorCode.InvalidWhitespace, offset: 7, length: 1, startLine: 0, startCharacter: 7 },
+			{ error: ParseErrorCode.InvalidWhitespace, offset: 8, length: 1, startLine: 0, startCharacter: 8 },
+			{ error: ParseErrorCode.InvalidWhitespace, offset: 10, length: 1, startLine: 0, startCharacter: 10 },
+			{ error: ParseErrorCode.InvalidWhitespace, offset: 13, length: 1, startLine: 0, startCharacter: 13 }
+		], { dialect: 'json' });
+		assertVisitErrors('\uFEFF[1,\u00A02,\v\f3\uFEFF,\t\u30004]', []);
+		assertVisitErrors('{\n  "a\tb": "\u0001\\t"\n}', [
+			{ error: ParseErrorCode.UnescapedControlCharacter, offset: 6, length: 1, startLine: 1, startCharacter: 4 },
+			{ error: ParseErrorCode.UnescapedControlCharacter, offset: 12, length: 1, startLine: 1, startCharacter: 10 }
+		], { dialect: 'jsonc' });
+		assertVisitErrors('{\n  "a\tb": "\u0001\\t"\n}', []);
+	});
+
+
+	test('parse: error positions', () => {
+		const errors: ParseError[] = [];
+		parse('{\n  "a": 1\n  "b": 2\n}', errors);
+		assert.deepEqual(errors, [
+			{ error: ParseErrorCode.CommaExpected, offset: 13, length: 3, startLine: 2, startCharacter: 2, endLine: 2, endCharacter: 5 }
+		]);
+
+		errors.length = 0;
+		parseTree('[1, /* a\r\nbc', errors);
+		assert.deepEqual(errors, [
+			{ error: ParseErrorCode.UnexpectedEndOfComment, offset: 4, length: 8, startLine: 0, startCharacter: 4, endLine: 1, endCharacter: 2 },
+			{ error: ParseErrorCode.ValueExpected, offset: 12, length: 0, startLine: 1, startCharacter: 2, endLine: 1, endCharacter: 2 },
+			{ error: ParseErrorCode.CloseBracketExpected, offset: 12, length: 0, startLine: 1, startCharacter: 2, endLine: 1, endCharacter: 2 }
+		]);
+
+		// an unterminated string ends with the line break after it
+		errors.length = 0;
+		parse('{\n\ta: 1,\n\tb: "abc\n\tc: 3\n}', errors);
+		assert.deepEqual(errors, [
+			{ error: ParseErrorCode.UnexpectedEndOfString, offset: 13, length: 5, startLine: 2, startCharacter: 4, endLine: 3, endCharacter: 0 },
+			{ error: ParseErrorCode.CommaExpected, offset: 19, length: 1, startLine: 3, startCharacter: 1, endLine: 3, endCharacter: 2 }
+		]);
+		errors.length = 0;
+		parse('["a\r\n1]', errors);
+		assert.deepEqual(errors, [
+			{ error: ParseErrorCode.UnexpectedEndOfString, offset: 1, length: 4, startLine: 0, startCharacter: 1, endLine: 1, endCharacter: 0 },
+			{ error: ParseErrorCode.CommaExpected, offset: 5, length: 1, startLine: 1, startCharacter: 0, endLine: 1, endCharacter: 1 }
+		]);
+
+		errors.length = 0;
+		parse('["a\\\n\\x"]', errors);
+		assert.deepEqual(errors, [
+			{ error: ParseErrorCode.InvalidHexEscape, offset: 5, length: 2, startLine: 1, startCharacter: 0, endLine: 1, endCharacter: 2 }
+		]);
+	});
+
+	test('parseAll', () => {
+		function assertDocuments(text: string, expected: [any, number, number, ParseErrorCode[]][], options?: ParseOptions) {
+			const documents = parseAll(text, options);
+			assert.deepEqual(documents.map(document => [document.value, document.offset, document.length, document.errors.map(error => error.error)]), expected, text);
+		}
+
+		assertDocuments('{ "a": 1 }\n// comment\n{ b: [2] }\n3 "four" [5]', [
+			[{ a: 1 }, 0, 10, []],
+			[{ b: [2] }, 22, 10, []],
+			[3, 33, 1, []],
+			['four', 35, 6, []],
+			[[5], 42, 3, []]
+		]);
+		assertDocuments('', []);
+		assertDocuments('// only a comment\n', []);
+		assertDocuments('[\n{ a: 1 },\n{ a: 2 }\n]', [[[{ a: 1 }, { a: 2 }], 0, 22, []]]);
+
+		// a bad document doesn't stop the documents after it
+		assertDocuments('{ "a": [1, 2\n{ "b": 1 }\n{ c: 3 }', [
+			[{ a: [1, 2] }, 0, 12, [ParseErrorCode.CloseBracketExpected, ParseErrorCode.CloseBraceExpected]],
+			[{ b: 1 }, 13, 10, []],
+			[{ c: 3 }, 24, 8, []]
+		]);
+		assertDocuments('{ a: 1 b: 2 }\n{ c: 3 }', [
+			[{ a: 1, b: 2 }, 0, 13, [ParseErrorCode.CommaExpected]],
+			[{ c: 3 }, 14, 8, []]
+		]);
+		assertDocuments('{ a: 1 }}\n# 2', [
+			[{ a: 1 }, 0, 8, []],
+			[undefined, 8, 1, [ParseErrorCode.ValueExpected]],
+			[2, 12, 1, [ParseErrorCode.InvalidSymbol]]
+		]);
+		// the trivia and comments after a document belong to the next document
+		assertDocuments('1 // comment\n2', [
+			[1, 0, 1, []],
+			[2, 13, 1, [ParseErrorCode.InvalidCommentToken]]
+		], { dialect: 'json' });
+		assertDocuments('/* unterminated', [[undefined, 0, 15, [ParseErrorCode.UnexpectedEndOfComment]]]);
+
+		// limits
+		assertDocuments('[1, 2] [3, 4]', [[[1], 0, 3, [ParseErrorCode.LimitExceeded]]], { maxTokens: 3 });
+		assertDocuments('[1] [2]', [[undefined, 0, 7, [ParseErrorCode.LimitExceeded]]], { maxDocumentLength: 5 });
+		// the documents have eight tokens each, trivia included, and the trivia between them isn't counted
+		assertDocuments('{ a: 1 }\n\n{ b: ,\n{ c: 3 }\n', [
+			[{ a: 1 }, 0, 8, []],
+			[{}, 10, 6, [ParseErrorCode.ValueExpected, ParseErrorCode.PropertyNameExpected, ParseErrorCode.ValueExpected, ParseErrorCode.CloseBraceExpected]],
+			[{ c: 3 }, 17, 8, []]
+		], { maxTokens: 8 });
+
+		// the errors at the end of a document are reported after its last token
+		let documents = parseAll('1\n[\n  2,\n  3\n', { dialect: 'json' });
+		assert.deepEqual(documents[1].errors, [
+			{ error: ParseErrorCode.CloseBracketExpected, offset: 12, length: 0, startLine: 3, startCharacter: 3, endLine: 3, endCharacter: 3 }
+		]);
+		documents = parseAll('{ a: 1,\n{ b: 2 }');
+		assert.deepEqual(documents.map(document => [document.offset, document.length]), [[0, 7], [8, 8]]);
+		assert.deepEqual(documents[0].errors.map(error => [error.error, error.offset, error.startLine, error.startCharacter]), [
+			[ParseErrorCode.PropertyNameExpected, 7, 0, 7],
+			[ParseErrorCode.ValueExpected, 7, 0, 7],
+			[ParseErrorCode.CloseBraceExpected, 7, 0, 7]
+		]);
+	});
+
+	test('updateTree', () => {
+		function withoutParents(node: Node | undefined): any {
+			if (!node) {
+				return node;
+			}
+			const copy: any = {};
+			for (const key of Object.keys(node)) {
+				if (key !== 'parent') {
+					copy[key] = (<any>node)[key];
+				}
+			}
+			if (node.children) {
+				copy.children = node.children.map(child => {
+					assert.strictEqual(child.parent, node);
+					return withoutParents(child);
+				});
+			}
+			return copy;
+		}
+
+		function assertUpdatedTree(text: string, edits: Edit[], options?: ParseOptions): Node {
+			const tree = parseTree(text, [], options);
+			const newText = applyEdits(text, edits);
+			const errors: ParseError[] = [];
+			const updated = updateTree(newText, tree, edits, errors, options);
+			const expectedErrors: ParseError[] = [];
+			const expected = parseTree(newText, expectedErrors, options);
+			const message = `${JSON.stringify(text)} with edits ${JSON.stringify(edits)}`;
+			assert.deepEqual(withoutParents(updated), withoutParents(expected), message);
+			assert.deepEqual(errors, expectedErrors, message);
+			return updated;
+		}
+
+		// the nodes outside of the innermost object or array around the edits are reused
+		const text = '{ "a": [1, { "b": 2 }], "c": { "d": true } }';
+		const tree = parseTree(text);
+		const a = findNodeAtLocation(tree, ['a'])!;
+		const c = findNodeAtLocation(tree, ['c'])!.parent!;
+		const edits = [{ offset: 18, length: 1, content: '20' }, { offset: 19, length: 0, content: ', e: 3' }];
+		const updated = updateTree(applyEdits(text, edits), tree, edits);
+		assert.strictEqual(updated, tree);
+		assert.strictEqual(findNodeAtLocation(updated, ['a']), a);
+		assert.strictEqual(findNodeAtLocation(updated, ['c'])!.parent, c);
+		assert.strictEqual(c.offset, 31);
+		assert.deepEqual(getNodeValue(updated), { a: [1, { b: 20, e: 3 }], c: { d: true } });
+
+		assertUpdatedTree(text, []);
+		assertUpdatedTree(text, [{ offset: 0, length: text.length, content: '[]' }]);
+		assertUpdatedTree(text, [{ offset: 8, length: 1, content: '"x"' }, { offset: 32, length: 0, content: ' ' }]);
+
+		// edits outside of the root object or array
+		assertUpdatedTree('//c\n[1]', [{ offset: 0, length: 3, content: '"c"' }]);
+		assertUpdatedTree('[1]//c', [{ offset: 3, length: 3, content: ',[]' }]);
+
+		// every insertion and deletion gives the tree of the whole document
+		const documents: [string, ParseOptions][] = [
+			['{\n  // comment\n  "a": [1, 2], /* b */\n  b: { c: \'x\' } // c\n} // end', { attachComments: true }],
+			['[0x1F, +.5, { "k": -Infinity }, [[]], "s"]', { literalStyle: true }],
+			['{ "a": { "b": [1] }, "c": 2 }', { duplicateKeys: 'error', dialect: 'json' }]
+		];
+		for (const [document, options] of documents) {
+			for (let offset = 0; offset <= document.length; offset++) {
+				for (const content of ['1', ',', '}', ']', '"', '/*', '\n', '{ x: [] }']) {
+					assertUpdatedTree(document, [{ offset, length: 0, content }], options);
+				}
+				if (offset < document.length) {
+					assertUpdatedTree(document, [{ offset, length: 1, content: '' }], options);
+				}
+			}
+		}
+	});
+
+	test('line scanner', () => {
+		function assertLines(lines: string[], expected: [SyntaxKind, number, number, ScanError][][], expectedStates: LineScanState[]) {
+			let state = LineScanState.Default;
+			const tokens: [SyntaxKind, number, number, ScanError][][] = [];
+			const states: LineScanState[] = [];
+			for (const line of lines) {
+				const scanner = createLineScanner(line, state);
+				const lineTokens: [SyntaxKind, number, number, ScanError][] = [];
+				while (scanner.scan() !== SyntaxKind.EOF) {
+					lineTokens.push([scanner.getToken(), scanner.getTokenOffset(), scanner.getTokenLength(), scanner.getTokenError()]);
+				}
+				assert.strictEqual(scanner.getTokenOffset(), line.length);
+				assert.strictEqual(scanner.getTokenLength(), 0);
+				tokens.push(lineTokens);
+				states.push(state = scanner.getState());
+			}
+			assert.deepEqual(tokens, expected);
+			assert.deepEqual(states, expectedStates);
+		}
+
+		assertLines(['[1, /* a', 'b', 'c */ 2]'], [
+			[
+				[SyntaxKind.OpenBracketToken, 0, 1, ScanError.None],
+				[SyntaxKind.NumericLiteral, 1, 1, ScanError.None],
+				[SyntaxKind.CommaToken, 2, 1, ScanError.None],
+				[SyntaxKind.Trivia, 3, 1, ScanError.None],
+				[SyntaxKind.BlockCommentTrivia, 4, 4, ScanError.None]
+			],
+			[[SyntaxKind.BlockCommentTrivia, 0, 1, ScanError.None]],
+			[
+				[SyntaxKind.BlockCommentTrivia, 0, 4, ScanError.None],
+				[SyntaxKind.Trivia, 4, 1, ScanError.None],
+				[SyntaxKind.NumericLiteral, 5, 1, ScanError.None],
+				[SyntaxKind.CloseBracketToken, 6, 1, ScanError.None]
+			]
+		], [LineScanState.BlockComment, LineScanState.BlockComment, LineScanState.Default]);
+
+		assertLines(['"a\\', '\'b\\', '" \'c\\', '', '\'d\\\\'], [
+			[[SyntaxKind.StringLiteral, 0, 3, ScanError.None]],
+			[[SyntaxKind.StringLiteral, 0, 3, ScanError.None]],
+			[
+				[SyntaxKind.StringLiteral, 0, 1, ScanError.None],
+				[SyntaxKind.Trivia, 1, 1, ScanError.None],
+				[SyntaxKind.StringLiteral, 2, 3, ScanError.None]
+			],
+			[[SyntaxKind.StringLiteral, 0, 0, ScanError.UnexpectedEndOfString]],
+			[[SyntaxKind.StringLiteral, 0, 4, ScanError.UnexpectedEndOfString]]
+		], [
+			LineScanState.DoubleQuotedString,
+			LineScanState.DoubleQuotedString,
+			LineScanState.SingleQuotedString,
+			LineScanState.Default,
+			LineScanState.Default
+		]);
+
+		// the values of tokens which continue from the previous line
+		let scanner = createLineScanner('b */ c', LineScanState.BlockComment);
+		scanner.scan();
+		assert.strictEqual(scanner.getTokenValue(), 'b */');
+		scanner = createLineScanner('b\\\'c\' 1', LineScanState.SingleQuotedString);
+		scanner.scan();
+		assert.strictEqual(scanner.getTokenValue(), 'b\'c');
+		assert.strictEqual(scanner.getTokenStartCharacter(), 0);
+
+		// scanning again from the start of the line starts in the state of the line
+		scanner.setPosition(0);
+		assert.strictEqual(scanner.scan(), SyntaxKind.StringLiteral);
+		assert.strictEqual(scanner.getTokenLength(), 5);
+		assert.strictEqual(printLineScanState(scanner.getState()), 'Default');
+	});
 })
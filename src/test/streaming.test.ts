@@ -0,0 +1,252 @@
+'use strict';
+
+import * as assert from 'assert';
+import {
+	ArrayElement,
+	createArrayElementParser,
+	createArrayElementStream,
+	createStreamingParser,
+	iterateArray,
+	JSON5Visitor,
+	ParseErrorCode,
+	ParseOptions,
+	Path,
+	StreamingParseError,
+	visit
+} from '../main';
+
+type Callback = [keyof JSON5Visitor, ...any[]];
+
+function recordingVisitor(callbacks: Callback[]): JSON5Visitor {
+	const record = (id: keyof JSON5Visitor) => (...args: any[]) => {
+		callbacks.push([id, ...args]);
+	};
+	return {
+		onObjectBegin: record('onObjectBegin'),
+		onObjectProperty: record('onObjectProperty'),
+		onObjectEnd: record('onObjectEnd'),
+		onArrayBegin: record('onArrayBegin'),
+		onArrayEnd: record('onArrayEnd'),
+		onLiteralValue: record('onLiteralValue'),
+		onSeparator: record('onSeparator'),
+		onComment: record('onComment'),
+		onError: record('onError')
+	};
+}
+
+function parseChunks(chunks: string[], options?: ParseOptions): Callback[] {
+	const callbacks: Callback[] = [];
+	const parser = createStreamingParser(recordingVisitor(callbacks), options);
+	for (const chunk of chunks) {
+		parser.write(chunk);
+	}
+	parser.end();
+	return callbacks;
+}
+
+/**
+ * Asserts that the streaming parser invokes the same callbacks as `visit`, however the text is split into chunks.
+ */
+function assertStreaming(text: string, options?: ParseOptions): void {
+	const expected: Callback[] = [];
+	visit(text, recordingVisitor(expected), options);
+	// the strict comparison tells NaN and -0 apart on every version of Node.js
+	assert.deepStrictEqual(parseChunks([text], options), expected);
+	assert.deepStrictEqual(parseChunks(text.split(''), options), expected, `text \`${text}\` in chunks of one character`);
+	for (let i = 0; i <= text.length; i++) {
+		assert.deepStrictEqual(parseChunks([text.substring(0, i), text.substring(i)], options), expected, `text \`${text}\` split at ${i}`);
+	}
+}
+
+function parseElements(chunks: string[], path: Path, options?: ParseOptions): ArrayElement[] {
+	const elements: ArrayElement[] = [];
+	const parser = createArrayElementParser(path, element => {
+		elements.push(element);
+	}, options);
+	for (const chunk of chunks) {
+		parser.write(chunk);
+	}
+	parser.end();
+	return elements;
+}
+
+function assertElements(text: string, path: Path, expected: ArrayElement[], options?: ParseOptions): void {
+	assert.deepEqual(parseElements([text], path, options), expected);
+	for (let i = 0; i <= text.length; i++) {
+		assert.deepEqual(parseElements([text.substring(0, i), text.substring(i)], path, options), expected, `text \`${text}\` split at ${i}`);
+	}
+}
+
+async function* chunksOf(text: string, size: number): AsyncIterableIterator<string> {
+	for (let i = 0; i < text.length; i += size) {
+		yield text.substr(i, size);
+	}
+}
+
+async function collect(elements: AsyncIterable<ArrayElement>): Promise<ArrayElement[]> {
+	const result: ArrayElement[] = [];
+	for await (const element of elements) {
+		result.push(element);
+	}
+	return result;
+}
+
+suite('Streaming', () => {
+	test('tokens split across chunks', () => {
+		assertStreaming('{ "key": "a string value", \'single\': [true, false, null] }');
+		assertStreaming('[-Infinity, +NaN, 1e+5, .5e-3, 0x1F, -0.5, 123456789]');
+		assertStreaming('{ unquoted\\u0041: \'a\\x41\\u0042\\\r\nc\', $_: Infinity }');
+		assertStreaming('// line comment\r\n/* block\n comment */ [1, /**/ 2 // end\n]');
+		assertStreaming('\uFEFF[\u2028"\u2028",\r\n\t1,\u2029\u00A0null]');
+	});
+
+	test('errors', () => {
+		assertStreaming('[1 2, "unterminated');
+		assertStreaming('{ a: 1, /* unterminated');
+		assertStreaming('[0x, 1.2.3, "\\x4g", -, #]');
+		assertStreaming('{ "a": , b 1 }} 3');
+		assertStreaming('[1, 2,]', { dialect: 'json' });
+		assertStreaming('', { allowEmptyContent: true });
+		assertStreaming('');
+	});
+
+	test('limits', () => {
+		assertStreaming('[[[[1]]]]', { maxDepth: 2 });
+		assertStreaming('[1, 2, 3, 4]', { maxTokens: 5 });
+		assert.deepEqual(parseChunks(['[1,', ' 2]'], { maxDocumentLength: 5 }), [
+			['onError', ParseErrorCode.LimitExceeded, 0, 6, 0, 0]
+		]);
+	});
+
+	test('large documents', () => {
+		const text = `[${new Array(1000).join('{ "text": "lorem ipsum dolor sit amet", number: 1.5e3 },\n')}]`;
+		const expected: Callback[] = [];
+		visit(text, recordingVisitor(expected));
+		const chunks: string[] = [];
+		for (let i = 0; i < text.length; i += 1000) {
+			chunks.push(text.substr(i, 1000));
+		}
+		assert.deepEqual(parseChunks(chunks), expected);
+		const longString = `"${new Array(100000).join('x')}"`;
+		assert.deepEqual(parseChunks(longString.match(/[^]{1,7}/g)!), [['onLiteralValue', longString.slice(1, -1), 0, longString.length, 0, 0]]);
+	});
+
+	test('write after end', () => {
+		const parser = createStreamingParser({});
+		parser.write('[1]');
+		parser.end();
+		assert.throws(() => parser.write('[2]'));
+	});
+
+	test('array elements', () => {
+		assertElements('[1, { a: [2, "b"] }, \'c\', [], -Infinity]', [], [
+			{ value: 1, offset: 1 },
+			{ value: { a: [2, 'b'] }, offset: 4 },
+			{ value: 'c', offset: 21 },
+			{ value: [], offset: 26 },
+			{ value: -Infinity, offset: 30 }
+		]);
+		assertElements('{ "meta": [0], items: [{ id: 1 }, { id: 2, items: [3] }], other: { items: [4] } }', ['items'], [
+			{ value: { id: 1 }, offset: 23 },
+			{ value: { id: 2, items: [3] }, offset: 34 }
+		]);
+		assertElements('[[1, 2], { a: [3, 4] }, { a: [5] }]', [1, 'a'], [
+			{ value: 3, offset: 15 },
+			{ value: 4, offset: 18 }
+		]);
+		assertElements('[]', [], []);
+		assertElements('{ a: { b: 1 } }', ['a'], []);
+		assertElements('"text"', [], []);
+	});
+
+	test('array elements with options', () => {
+		assertElements('[{ a: 1, a: 2 }]', [], [{ value: { a: 1 }, offset: 1 }], { duplicateKeys: 'firstWins' });
+		const elements = parseElements(['[{ "__proto__": 1 }]'], [], { nullPrototype: true });
+		assert.strictEqual(Object.getPrototypeOf(elements[0].value), null);
+		assert.deepEqual(Object.keys(elements[0].value), ['__proto__']);
+	});
+
+	test('array element errors', () => {
+		const elements: ArrayElement[] = [];
+		const parser = createArrayElementParser([], element => {
+			elements.push(element);
+		});
+		parser.write('[1, 2\n 3, 4]');
+		assert.throws(() => parser.end(), (error: StreamingParseError) => {
+			assert.equal(error.message, 'Comma expected (2:2)');
+			assert.deepEqual([error.error, error.offset, error.length, error.startLine, error.startCharacter], [ParseErrorCode.CommaExpected, 7, 1, 1, 1]);
+			return true;
+		});
+		assert.deepEqual(elements, [{ value: 1, offset: 1 }, { value: 2, offset: 4 }]);
+		assert.throws(() => parser.write(']'), /Comma expected/);
+		assert.throws(() => parseElements(['[1, 2]'], [], { dialect: 'json', maxDepth: 0 }), /^Error: Limit exceeded \(1:1\)$/);
+	});
+
+	test('array element stream', done => {
+		const stream = createArrayElementStream(['log']);
+		const elements: ArrayElement[] = [];
+		stream.on('data', (element: ArrayElement) => elements.push(element));
+		stream.on('end', () => {
+			assert.deepEqual(elements, [
+				{ value: { text: 'caf\u00E9' }, offset: 8 },
+				{ value: 2, offset: 26 }
+			]);
+			done();
+		});
+		const text = Buffer.from('{ log: [{ text: "caf\u00E9" }, 2] }');
+		// the two bytes of the accented character are written in different chunks
+		stream.write(text.slice(0, 21));
+		stream.write(text.slice(21, 26));
+		stream.end(text.slice(26));
+	});
+
+	test('array element stream errors', done => {
+		const stream = createArrayElementStream([]);
+		const elements: ArrayElement[] = [];
+		stream.on('data', (element: ArrayElement) => elements.push(element));
+		stream.on('error', (error: StreamingParseError) => {
+			assert.deepEqual([error.error, error.offset, error.startLine, error.startCharacter], [ParseErrorCode.InvalidSymbol, 4, 0, 4]);
+			assert.deepEqual(elements, [{ value: 1, offset: 1 }]);
+			done();
+		});
+		stream.end('[1, #]');
+	});
+
+	test('iterateArray', async () => {
+		const text = `[${new Array(100).join('{ "text": "lorem ipsum", number: 1.5e3 },\n')}]`;
+		const elements = await collect(iterateArray(chunksOf(text, 7), []));
+		assert.equal(elements.length, 99);
+		for (let i = 0; i < elements.length; i++) {
+			assert.deepEqual(elements[i], { value: { text: 'lorem ipsum', number: 1500 }, offset: 1 + 42 * i });
+		}
+		assert.deepEqual(await collect(iterateArray(chunksOf('{ log: [1, 2] }', 2), ['log'], { dialect: 'json5' })), [
+			{ value: 1, offset: 8 },
+			{ value: 2, offset: 11 }
+		]);
+	});
+
+	test('iterateArray errors', async () => {
+		const elements: ArrayElement[] = [];
+		try {
+			for await (const element of iterateArray(chunksOf('[1, 2, #]', 3), [])) {
+				elements.push(element);
+			}
+			assert.fail('no error');
+		} catch (e) {
+			assert.equal(e.message, 'Invalid symbol (1:8)');
+		}
+		assert.deepEqual(elements, [{ value: 1, offset: 1 }, { value: 2, offset: 4 }]);
+	});
+
+	test('iterateArray big numbers', async () => {
+		const text = '[{"id": 1}, {"id": 12345678901234567890}]';
+		assert.deepEqual(await collect(iterateArray(chunksOf(text, 5), [])), [
+			{ value: { id: 1 }, offset: 1 },
+			{ value: { id: 12345678901234567890 }, offset: 12 }
+		]);
+		assert.deepEqual(parseElements([text], [], { bigNumbers: 'string' }), [
+			{ value: { id: 1 }, offset: 1 },
+			{ value: { id: '12345678901234567890' }, offset: 12 }
+		]);
+	});
+});
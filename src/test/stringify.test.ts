@@ -0,0 +1,117 @@
+'use strict';
+
+import * as assert from 'assert';
+import { parse, ParseError, stringify, StringifyOptions } from '../main';
+
+function assertStringify(value: any, expected: string | undefined, options?: StringifyOptions): void {
+	const actual = stringify(value, options);
+	assert.equal(actual, expected);
+	if (actual !== undefined) {
+		const errors: ParseError[] = [];
+		parse(actual, errors);
+		assert.deepEqual(errors, [], `output of stringify could not be parsed: \`${actual}\``);
+	}
+}
+
+suite('JSON5 - stringify', () => {
+	test('literals', () => {
+		assertStringify(null, 'null');
+		assertStringify(true, 'true');
+		assertStringify(false, 'false');
+		assertStringify(1.5, '1.5');
+		assertStringify(-0, '-0');
+		assertStringify(1e21, '1e+21');
+		assertStringify(Infinity, 'Infinity');
+		assertStringify(-Infinity, '-Infinity');
+		assertStringify(NaN, 'NaN');
+		assertStringify(new Number(3), '3');
+		assertStringify(undefined, undefined);
+		assertStringify(() => 1, undefined);
+	});
+
+	test('strings', () => {
+		assertStringify('abc', '"abc"');
+		assertStringify('it\'s "quoted"', '"it\'s \\"quoted\\""');
+		assertStringify('it\'s "quoted"', '\'it\\\'s "quoted"\'', { quote: '\'' });
+		assertStringify('\\\b\f\n\r\t\v\0\u001F\u007F', '"\\\\\\b\\f\\n\\r\\t\\v\\u0000\\u001F\\u007F"');
+		assertStringify('\u2028\u2029', '"\\u2028\\u2029"');
+		assertStringify('\u00DC\uD83D\uDE00', '"\u00DC\uD83D\uDE00"');
+		assertStringify('\u00DC\uD83D\uDE00', '"\\u00DC\\uD83D\\uDE00"', { asciiOnly: true });
+	});
+
+	test('property names', () => {
+		assertStringify({ a: 1, $_b2: 2, 'c d': 3, '': 4, '1': 5, null: 6, '\u00FC': 7 }, '{"1":5,a:1,$_b2:2,"c d":3,"":4,null:6,\u00FC:7}');
+		assertStringify({ a: 1, 'c d': 2 }, '{"a":1,"c d":2}', { quoteKeys: 'always' });
+		assertStringify({ a: 1, 'c d': 2 }, '{a:1,\'c d\':2}', { quote: '\'' });
+		assertStringify({ '\u00FC': 1 }, '{"\\u00FC":1}', { asciiOnly: true });
+	});
+
+	test('objects and arrays', () => {
+		assertStringify({}, '{}');
+		assertStringify([], '[]');
+		assertStringify({ a: [1, 'x', { b: null }], c: {} }, '{a:[1,"x",{b:null}],c:{}}');
+		assertStringify({ a: undefined, b: () => 1, c: 1 }, '{c:1}');
+		assertStringify([undefined, () => 1], '[null,null]');
+		assertStringify({ date: new Date(0) }, '{date:"1970-01-01T00:00:00.000Z"}');
+		assertStringify({ toJSON: (key: string) => `key was '${key}'` }, '"key was \'\'"');
+	});
+
+	test('indentation', () => {
+		const value = { a: [1, 2], b: { c: 'd' }, e: [] };
+		assertStringify(value, '{\n  a: [\n    1,\n    2\n  ],\n  b: {\n    c: "d"\n  },\n  e: []\n}', { indent: 2 });
+		assertStringify(value, '{\n\ta: [\n\t\t1,\n\t\t2\n\t],\n\tb: {\n\t\tc: "d"\n\t},\n\te: []\n}', { indent: '\t' });
+		assertStringify(value, '{\n  a: [\n    1,\n    2,\n  ],\n  b: {\n    c: "d",\n  },\n  e: [],\n}', { indent: 2, trailingCommas: true });
+		assertStringify(value, '{a:[1,2],b:{c:"d"},e:[]}', { trailingCommas: true });
+	});
+
+	test('max line width', () => {
+		const value = { short: [1, 2, 3], long: ['aaaaaaaa', 'bbbbbbbb', 'cccccccc'], nested: [[1, 2], [3]], objects: [{ a: 1 }] };
+		assertStringify(value, [
+			'{',
+			'  short: [1, 2, 3],',
+			'  long: [',
+			'    "aaaaaaaa",',
+			'    "bbbbbbbb",',
+			'    "cccccccc"',
+			'  ],',
+			'  nested: [[1, 2], [3]],',
+			'  objects: [',
+			'    {',
+			'      a: 1',
+			'    }',
+			'  ]',
+			'}'
+		].join('\n'), { indent: 2, maxLineWidth: 30 });
+
+		// without indentation everything is on one line anyway
+		assertStringify([1, 2, 3], '[1,2,3]', { maxLineWidth: 3 });
+	});
+
+	test('circular structures', () => {
+		const value: any = { a: [] };
+		value.a.push(value);
+		assert.throws(() => stringify(value), TypeError);
+
+		const shared = { a: 1 };
+		assertStringify([shared, shared], '[{a:1},{a:1}]');
+	});
+
+	test('big integers', () => {
+		assert.equal(stringify({ id: BigInt('12345678901234567890'), n: 1 }), '{id:12345678901234567890,n:1}');
+		assertStringify([BigInt(-5)], '[-5]');
+		const value = { id: BigInt('12345678901234567890'), ids: [BigInt('-9007199254740993'), 1] };
+		assert.deepEqual(parse(stringify(value)!, [], { bigNumbers: 'bigint' }), value);
+	});
+
+	test('round trip', () => {
+		const value = { 'a b': ['x\'y"z', -1.5e-7, true, null, { nested: [] }], Infinity: -Infinity };
+		const options: StringifyOptions[] = [
+			{},
+			{ quote: '\'', quoteKeys: 'always' },
+			{ indent: 4, trailingCommas: true, maxLineWidth: 20, asciiOnly: true }
+		];
+		for (const option of options) {
+			assert.deepEqual(parse(stringify(value, option)!), value);
+		}
+	});
+});